@@ -10,9 +10,13 @@ function App() {
     roomState, 
     gameState, 
     mySeat, 
+    isSpectator,
     error,
+    notice,
     chatMessages,
     roomList,
+    replays,
+    matchState,
     actions 
   } = useGame();
   
@@ -42,14 +46,21 @@ function App() {
         </div>
       )}
 
+      {notice && (
+        <div className="fixed top-16 left-1/2 -translate-x-1/2 bg-yellow-500 text-black px-6 py-2 rounded-full shadow-lg z-50 font-bold">
+          {notice}
+        </div>
+      )}
+
       {!inRoom ? (
-        <Lobby onJoin={actions.joinRoom} roomList={roomList} onFetchRoomList={actions.fetchRoomList} />
+        <Lobby onJoin={actions.joinRoom} onWatch={actions.spectateRoom} roomList={roomList} onFetchRoomList={actions.fetchRoomList} />
       ) : (
           roomState && (
             <GameTable 
               gameState={gameState} 
               roomState={roomState}
               mySeat={mySeat}
+              isSpectator={isSpectator}
               onPlay={actions.playHand}
               onPass={actions.passTurn}
               onReady={actions.setReady}
@@ -60,8 +71,21 @@ function App() {
               onSendChat={actions.sendChat}
               onSwitchSeat={actions.switchSeat}
               onSetGameMode={actions.setGameMode}
+              onSetRuleSet={actions.setRuleSet}
+              onSetTurnTimeLimit={actions.setTurnTimeLimit}
               onUseSkill={actions.useSkill}
+              onToggleAutoPlay={actions.toggleAutoPlay}
               onForceEndGame={actions.forceEndGame}
+              onPauseMatch={actions.pauseMatch}
+              onResumeMatch={actions.resumeMatch}
+              onSetWaitForContinue={actions.setWaitForContinue}
+              onContinueMatch={actions.continueMatch}
+              onSpectateSeat={actions.spectateSeat}
+              onSetSpectatorView={actions.setSpectatorView}
+              replays={replays}
+              onRequestReplays={actions.requestReplays}
+              matchState={matchState}
+              onDismissMatchSummary={actions.dismissMatchSummary}
             />
         )
       )}
@@ -1,14 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { HistoryEntry, HistoryEventType } from '../../shared/types';
+import { HistoryEntry, HistoryEventType, GameReplay } from '../../shared/types';
+import { downloadReplays } from './ReplayViewer';
 
 interface GameHistoryProps {
   history: HistoryEntry[];
   currentRound: number;
   isOpen: boolean;
   onClose: () => void;
+  replays?: GameReplay[];      // Finished games of this match
+  onOpenReplay?: () => void;
 }
 
-export const GameHistory: React.FC<GameHistoryProps> = ({ history, currentRound, isOpen, onClose }) => {
+export const GameHistory: React.FC<GameHistoryProps> = ({ history, currentRound, isOpen, onClose, replays = [], onOpenReplay }) => {
   const [filter, setFilter] = useState<HistoryEventType | 'all'>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const historyEndRef = useRef<HTMLDivElement>(null);
@@ -177,12 +180,28 @@ export const GameHistory: React.FC<GameHistoryProps> = ({ history, currentRound,
             />
             自动滚动到最新
           </label>
-          <button
-            onClick={onClose}
-            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition"
-          >
-            关闭
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadReplays(replays)}
+              disabled={replays.length === 0}
+              className="px-4 py-2 bg-green-700 hover:bg-green-600 text-white rounded-lg font-medium transition disabled:opacity-40"
+              title="下载本场已完成牌局的完整回放 (JSON)"
+            >
+              下载回放 ({replays.length})
+            </button>
+            <button
+              onClick={() => onOpenReplay?.()}
+              className="px-4 py-2 bg-purple-700 hover:bg-purple-600 text-white rounded-lg font-medium transition"
+            >
+              回放
+            </button>
+            <button
+              onClick={onClose}
+              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition"
+            >
+              关闭
+            </button>
+          </div>
         </div>
       </div>
     </div>
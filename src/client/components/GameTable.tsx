@@ -1,41 +1,63 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Card as CardType, Rank, Suit, GameMode, SkillCard, SkillCardType, Hand } from '../../shared/types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Card as CardType, Rank, Suit, GameMode, SkillCard, SkillCardType, Hand, HandInterpretation, TURN_TIME_LIMITS, DEFAULT_TURN_TIME_LIMIT, SpectatorView, SPECTATOR_DELAYS, GameReplay, MAX_A_ATTEMPTS, MatchState } from '../../shared/types';
 import { Bot } from '../../shared/bot';
+import { RuleSetId, RULE_SETS, getRuleSet } from '../../shared/ruleset';
 import { Card } from './Card';
 import { GameState, RoomState } from '../useGame';
-import { getLogicValue, isConsecutive, getAllPossibleHandTypes, getHandDescription } from '../../shared/rules';
+import { getLogicValue, getHandInterpretations, findStraightFlushes, isValidTributeCard, getReturnTributeCandidates } from '../../shared/rules';
+import { decomposeHand } from '../../shared/solver';
 import { SkillCardButton } from './SkillCardButton';
 import { TargetSelectModal } from './TargetSelectModal';
 import { GameHistory } from './GameHistory';
+import { ReplayViewer } from './ReplayViewer';
+import { TurnTimerRing } from './TurnTimerRing';
+import { GameSummary, Scoreboard } from './MatchSummary';
 
 interface Props {
   gameState: GameState | null;
   roomState: RoomState;
   mySeat: number;
+  isSpectator?: boolean;
   onPlay: (cards: CardType[], handType?: Hand) => void;
   onPass: () => void;
   onReady: () => void;
-  onStart: () => void;
+  onStart: (seed?: number) => void;
   onTribute?: (cards: CardType[]) => void;
   onReturnTribute?: (cards: CardType[]) => void;
   chatMessages: {sender: string, text: string, time: string, seatIndex: number}[];
   onSendChat: (msg: string) => void;
   onSwitchSeat: (seatIdx: number) => void;
   onSetGameMode?: (mode: GameMode) => void;
+  onSetRuleSet?: (ruleSetId: RuleSetId) => void;
+  onSetTurnTimeLimit?: (seconds: number) => void;
   onUseSkill?: (skillId: string, targetSeat?: number) => void;
+  onToggleAutoPlay?: () => void;
   onForceEndGame?: () => void;
+  onPauseMatch?: () => void;
+  onResumeMatch?: () => void;
+  onSetWaitForContinue?: (enabled: boolean) => void;
+  onContinueMatch?: () => void;
+  onSpectateSeat?: (seat: number | null) => void;
+  onSetSpectatorView?: (view: SpectatorView, delay: number) => void;
+  replays?: GameReplay[];
+  onRequestReplays?: () => void;
+  matchState?: MatchState | null;
+  onDismissMatchSummary?: () => void;
 }
 
 export const GameTable: React.FC<Props> = ({ 
-  gameState, roomState, mySeat, onPlay, onPass, onReady, onStart,
+  gameState, roomState, mySeat, isSpectator = false, onPlay, onPass, onReady, onStart,
   onTribute, onReturnTribute, chatMessages, onSendChat, onSwitchSeat,
-  onSetGameMode, onUseSkill, onForceEndGame
+  onSetGameMode, onSetRuleSet, onSetTurnTimeLimit, onUseSkill, onToggleAutoPlay, onForceEndGame,
+  onPauseMatch, onResumeMatch, onSetWaitForContinue, onContinueMatch,
+  onSpectateSeat, onSetSpectatorView, replays = [], onRequestReplays, matchState = null, onDismissMatchSummary
 }) => {
   const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
   const [chatInput, setChatInput] = useState('');
   const [viewMode, setViewMode] = useState<'normal' | 'stacked'>('normal'); 
   const chatEndRef = useRef<HTMLDivElement>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [seedInput, setSeedInput] = useState('');
   
   // Common emojis for quick selection
   const quickEmojis = ['😀', '😂', '🤣', '😎', '🥳', '😭', '😡', '🤔', '👍', '👎', '❤️', '🔥', '💯', '🎉', '🤝', '✌️', '💪', '🙏', '😱', '🤯'];
@@ -52,9 +74,23 @@ export const GameTable: React.FC<Props> = ({
   
   // History window state
   const [showHistory, setShowHistory] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+  const [showScoreboard, setShowScoreboard] = useState(false);
+  
+  // Result of the game just finished (matched by game number, as matchState may lag a moment)
+  const lastResult = gameState && matchState ? matchState.games.find(g => g.game === gameState.currentRound) : undefined;
+  const finalResult = matchState && matchState.matchWinner !== null ? matchState.games[matchState.games.length - 1] : undefined;
+  const seatName = (seat: number) => roomState.players.find(p => p && p.seatIndex === seat)?.name || `Seat ${seat}`;
+  const paused = !!matchState?.paused;
+  const matchRunning = !!matchState && matchState.matchWinner === null;
+  
+  // Finished games may have been added since the last look
+  useEffect(() => {
+      if (showHistory) onRequestReplays?.();
+  }, [showHistory]);
   
   // Hand type selection state (for wild cards with multiple interpretations)
-  const [possibleHands, setPossibleHands] = useState<Hand[]>([]);
+  const [possibleHands, setPossibleHands] = useState<HandInterpretation[]>([]);
   const [showHandSelector, setShowHandSelector] = useState(false);
   
   // Track new cards and set up highlight timer
@@ -109,11 +145,9 @@ export const GameTable: React.FC<Props> = ({
   const getPlayerAt = (offset: number) => {
     const seat = (mySeat + offset) % 4;
     const player = roomState.players.find(p => p && p.seatIndex === seat);
-    const handCount = gameState ? (
-      seat === mySeat 
-        ? (gameState.hands[seat] as CardType[]).length 
-        : (gameState.hands[seat] as number)
-    ) : 0;
+    // Own hand arrives as cards; others as counts unless revealed to a spectator
+    const hand = gameState ? gameState.hands[seat] : 0;
+    const handCount = Array.isArray(hand) ? hand.length : hand;
     
     // Team identification
     const isTeammate = (mySeat + 2) % 4 === seat;
@@ -127,61 +161,54 @@ export const GameTable: React.FC<Props> = ({
   const right = getPlayerAt(1);
   const me = getPlayerAt(0);
 
-  const myHandOriginal = gameState ? (gameState.hands[mySeat] as CardType[]) : [];
+  const myHandOriginal = gameState && Array.isArray(gameState.hands[mySeat]) ? (gameState.hands[mySeat] as CardType[]) : [];
+  // Spectators sit at seat 0 (or the seat they follow) but never act
+  const isHost = !isSpectator && mySeat === 0;
   const [sortedHand, setSortedHand] = useState<CardType[]>([]);
   const [straightFlushIds, setStraightFlushIds] = useState<Set<string>>(new Set());
+  // Cards that only make a straight flush with the help of a wild (红心级牌)
+  const [wildFlushIds, setWildFlushIds] = useState<Set<string>>(new Set());
+  
+  // 理牌: group the hand by its best decomposition (fewest plays)
+  const [arranged, setArranged] = useState(false);
+  const [handScore, setHandScore] = useState<number | null>(null);
+  // Every gameState brings a new hand array; only a change of cards is worth a new search
+  const handKey = myHandOriginal.map(c => c.id).join(',');
+  const level = gameState?.level;
+  const plan = useMemo(
+      () => arranged && myHandOriginal.length > 0 && level !== undefined ? decomposeHand(myHandOriginal, level) : null,
+      [handKey, level, arranged]
+  );
 
   useEffect(() => {
       if (myHandOriginal.length > 0 && gameState) {
-          setSortedHand(myHandOriginal);
+          if (plan) {
+              // Largest plays first, matching the normal descending order
+              setSortedHand([...plan.plays].reverse().flatMap(p => p.cards));
+              setHandScore(plan.score);
+          } else {
+              setSortedHand(myHandOriginal);
+              setHandScore(null);
+          }
           
-          // Detect Straight Flushes for Highlighting
+          // Detect Straight Flushes for Highlighting (same rule as the engine)
           const sfSet = new Set<string>();
-          // Logic: Group by Suit -> Sort by Rank -> Check consecutive 5+
-          const suits = [Suit.Spades, Suit.Hearts, Suit.Clubs, Suit.Diamonds];
-          
-          suits.forEach(s => {
-              const suitCards = myHandOriginal.filter(c => c.suit === s && !c.isWild && c.rank <= Rank.Ace);
-              // Sort by Rank Ascending
-              suitCards.sort((a, b) => a.rank - b.rank);
-              
-              // Find sequences
-              let seq: CardType[] = [];
-              for (let i = 0; i < suitCards.length; i++) {
-                  if (seq.length === 0) {
-                      seq.push(suitCards[i]);
-                  } else {
-                      const last = seq[seq.length - 1];
-                      if (suitCards[i].rank === last.rank + 1) {
-                          seq.push(suitCards[i]);
-                      } else if (suitCards[i].rank === last.rank) {
-                          // Duplicate rank? Skip or fork? 
-                          // For visualization, just highlight one path or all?
-                          // Simple: Reset sequence if gap
-                          // Actually duplicates break strict sequence check if we just use prev.
-                          // But if it is duplicate rank, we can still form SF if we have 5 unique ranks.
-                          // Simplification: Check strict consecutive ranks.
-                          // If gap > 1, reset.
-                      } else {
-                          // Gap
-                          if (seq.length >= 5) {
-                              seq.forEach(c => sfSet.add(c.id));
-                          }
-                          seq = [suitCards[i]];
-                      }
-                  }
-              }
-              if (seq.length >= 5) {
-                  seq.forEach(c => sfSet.add(c.id));
-              }
+          const wildSfSet = new Set<string>();
+          findStraightFlushes(myHandOriginal, gameState.level).forEach(sf => {
+              const target = sf.cards.some(c => c.isWild) ? wildSfSet : sfSet;
+              sf.cards.forEach(c => target.add(c.id));
           });
+          sfSet.forEach(id => wildSfSet.delete(id));
           setStraightFlushIds(sfSet);
+          setWildFlushIds(wildSfSet);
 
       } else {
           setSortedHand([]);
           setStraightFlushIds(new Set());
+          setWildFlushIds(new Set());
+          setHandScore(null);
       }
-  }, [myHandOriginal, gameState?.level]); 
+  }, [handKey, level, plan]);
 
   const toggleViewMode = () => {
       setViewMode(prev => prev === 'normal' ? 'stacked' : 'normal');
@@ -201,7 +228,7 @@ export const GameTable: React.FC<Props> = ({
     
     if (hasWild && gameState) {
       // Get all possible hand types
-      const possibilities = getAllPossibleHandTypes(cards, gameState.level);
+      const possibilities = getHandInterpretations(cards, gameState.level);
       
       if (possibilities.length > 1) {
         // Multiple interpretations - show selector
@@ -210,7 +237,7 @@ export const GameTable: React.FC<Props> = ({
         return;
       } else if (possibilities.length === 1) {
         // Single interpretation - play directly
-        onPlay(cards, possibilities[0]);
+        onPlay(cards, possibilities[0].hand);
         setSelectedCardIds([]);
         return;
       }
@@ -231,12 +258,12 @@ export const GameTable: React.FC<Props> = ({
   
   const handleHint = () => {
       if (!gameState) return;
-      const bot = new Bot(sortedHand, gameState.level);
+      const bot = new Bot(sortedHand, gameState.level, getRuleSet(roomState.ruleSetId));
       const target = gameState.lastHand && gameState.lastHand.playerIndex !== mySeat ? gameState.lastHand.hand : null;
       const move = bot.decideMove(target);
       
       if (move) {
-          setSelectedCardIds(move.map(c => c.id));
+          setSelectedCardIds(move.cards.map(c => c.id));
       } else {
           setSelectedCardIds([]);
       }
@@ -248,6 +275,14 @@ export const GameTable: React.FC<Props> = ({
           alert("请选择一张牌");
           return;
       }
+      if (gameState.phase === 'Tribute' && !isValidTributeCard(cards[0], myHandOriginal, gameState.level)) {
+          alert("必须进贡最大的牌（红心级牌不能进贡）");
+          return;
+      }
+      if (gameState.phase === 'ReturnTribute' && !getReturnTributeCandidates(myHandOriginal, gameState.level).some(c => c.id === cards[0].id)) {
+          alert("还贡必须是10或以下的非级牌");
+          return;
+      }
       if (gameState.phase === 'Tribute' && onTribute) onTribute(cards);
       if (gameState.phase === 'ReturnTribute' && onReturnTribute) onReturnTribute(cards);
       setSelectedCardIds([]);
@@ -302,9 +337,9 @@ export const GameTable: React.FC<Props> = ({
   };
 
   const isTributePhase = gameState && (gameState.phase === 'Tribute' || gameState.phase === 'ReturnTribute');
-  const amIPaying = isTributePhase && gameState.tributeState && (
-      (gameState.phase === 'Tribute' && gameState.tributeState.pendingTributes.some((t: any) => t.from === mySeat)) ||
-      (gameState.phase === 'ReturnTribute' && gameState.tributeState.pendingReturns.some((t: any) => t.from === mySeat))
+  const amIPaying = !isSpectator && isTributePhase && gameState.tributeState && (
+      (gameState.phase === 'Tribute' && gameState.tributeState.pendingTributes.some((t: any) => t.from === mySeat && !t.card)) ||
+      (gameState.phase === 'ReturnTribute' && gameState.tributeState.pendingReturns.some((t: any) => t.from === mySeat && !t.card))
   );
 
   const renderLastHand = () => {
@@ -326,22 +361,30 @@ export const GameTable: React.FC<Props> = ({
   };
 
   // Helper to render cards played in round action
-  const renderActionCards = (cards: CardType[] | undefined) => {
+  const renderActionCards = (cards: CardType[] | undefined, limit: number = 6) => {
       if (!cards || cards.length === 0) return null;
       return (
-          <div className="flex gap-0.5 mt-1">
-              {cards.slice(0, 6).map((card, i) => (
+          <div className="flex flex-wrap gap-0.5 mt-1">
+              {cards.slice(0, limit).map((card, i) => (
                   <div key={i} className="w-6 h-8 bg-white rounded text-xs flex items-center justify-center font-bold border border-gray-300"
                        style={{ color: (card.suit === Suit.Hearts || card.suit === Suit.Diamonds) ? 'red' : 'black' }}>
                       {card.rank === Rank.SmallJoker ? '🃏' : card.rank === Rank.BigJoker ? '🃟' : 
                        ['', '', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'][card.rank] || '?'}
                   </div>
               ))}
-              {cards.length > 6 && <span className="text-white text-xs">+{cards.length - 6}</span>}
+              {cards.length > limit && <span className="text-white text-xs">+{cards.length - limit}</span>}
           </div>
       );
   };
 
+  // Seats the turn clock is running for (current player, or unpaid tributes)
+  const isTimedSeat = (seat: number) => {
+      if (!gameState || !gameState.turnDeadline) return false;
+      if (gameState.phase === 'Tribute') return !!gameState.tributeState?.pendingTributes.some(t => t.from === seat && !t.card);
+      if (gameState.phase === 'ReturnTribute') return !!gameState.tributeState?.pendingReturns.some(r => r.from === seat && !r.card);
+      return gameState.phase === 'Playing' && gameState.currentTurn === seat;
+  };
+
   const PlayerArea = ({ data, pos }: { data: any, pos: string }) => {
     const action = gameState?.roundActions?.[data.seat];
     const bubble = chatBubbles[data.seat];
@@ -360,8 +403,8 @@ export const GameTable: React.FC<Props> = ({
     
     return (
       <div 
-          className={`absolute ${pos} flex flex-col items-center p-4 rounded-lg transition-colors ${data.isTeammate ? 'bg-blue-900/40 border-2 border-blue-400' : 'bg-black/20'} ${!gameState && !data.player ? 'cursor-pointer hover:bg-white/10' : ''}`}
-          onClick={() => !gameState && !data.player && onSwitchSeat(data.seat)}
+          className={`absolute ${pos} flex flex-col items-center p-4 rounded-lg transition-colors ${data.isTeammate ? 'bg-blue-900/40 border-2 border-blue-400' : 'bg-black/20'} ${!gameState && !data.player && !isSpectator ? 'cursor-pointer hover:bg-white/10' : ''}`}
+          onClick={() => !gameState && !data.player && !isSpectator && onSwitchSeat(data.seat)}
       >
          {/* Chat Bubble */}
          {bubble && (
@@ -376,6 +419,7 @@ export const GameTable: React.FC<Props> = ({
          
          <div className="w-12 h-12 bg-gray-300 rounded-full flex items-center justify-center mb-2 relative">
            {data.player ? data.player.name[0].toUpperCase() : (gameState ? '?' : '+')}
+           {isTimedSeat(data.seat) && <TurnTimerRing deadline={gameState!.turnDeadline!} limit={gameState!.turnTimeLimit || 0} />}
            {data.isTeammate && <div className="absolute -top-1 -right-1 bg-blue-500 text-xs text-white px-1 rounded">友</div>}
            {data.isOpponent && <div className="absolute -top-1 -right-1 bg-red-500 text-xs text-white px-1 rounded">敌</div>}
            {data.player && data.player.seatIndex === 0 && (
@@ -391,12 +435,21 @@ export const GameTable: React.FC<Props> = ({
            )}
          </div>
          <div className="text-white font-bold flex items-center gap-2">
-             {data.player ? data.player.name : (gameState ? 'Waiting...' : '点击入座')}
+             {data.player ? data.player.name : (gameState || isSpectator ? 'Waiting...' : '点击入座')}
              {data.player && (data.player as any).isDisconnected && (
                  <span className="text-red-500 text-xs font-bold bg-white px-1 rounded animate-pulse">OFF</span>
              )}
+             {gameState?.autoPlay?.[data.seat] && (
+                 <span className="text-black text-xs font-bold bg-cyan-400 px-1 rounded">托管中</span>
+             )}
          </div>
          {gameState && <div className="text-yellow-400">Cards: {data.handCount}</div>}
+         {/* Hands revealed to spectators (上帝视角) */}
+         {gameState && Array.isArray(gameState.hands[data.seat]) && (
+             <div className="mt-1 max-w-xs flex flex-wrap justify-center">
+                 {renderActionCards(gameState.hands[data.seat] as CardType[], 27)}
+             </div>
+         )}
          {data.player && data.player.isReady && !gameState && <div className="text-green-400 text-sm">Ready</div>}
          
          {/* Show current round action */}
@@ -517,14 +570,80 @@ export const GameTable: React.FC<Props> = ({
           </form>
       </div>
 
+      {/* Spectator seat picker: whose perspective the table is drawn from */}
+      {isSpectator && (
+          <div className="absolute bottom-4 left-4 z-50 bg-[#252526] border border-[#333333] rounded px-3 py-2 text-xs text-[#d4d4d4] flex items-center gap-2 shadow-lg">
+              <span className="text-[#9cdcfe] font-bold">👁 观战</span>
+              {[0, 1, 2, 3].map(seat => {
+                  const p = roomState.players.find(pl => pl && pl.seatIndex === seat);
+                  const following = gameState?.spectator?.followSeat === seat;
+                  return (
+                      <button
+                          key={seat}
+                          onClick={() => onSpectateSeat?.(following ? null : seat)}
+                          className={`px-2 py-1 rounded ${following ? 'bg-blue-600 text-white' : 'bg-[#3c3c3c] hover:bg-[#4a4a4a]'}`}
+                      >
+                          {p ? p.name : `Seat ${seat}`}
+                      </button>
+                  );
+              })}
+              {gameState?.spectator && gameState.spectator.delay > 0 && (
+                  <span className="text-gray-400">延迟 {gameState.spectator.delay}秒</span>
+              )}
+          </div>
+      )}
+
       {gameState && (
           <div className="absolute top-4 left-4 flex flex-col gap-2 items-start z-50">
               <div className="text-[#d4d4d4] font-bold text-xl bg-[#252526] border border-[#333333] px-4 py-2 rounded shadow-lg">
                   <span className="text-[#569cd6]">const</span> <span className="text-[#9cdcfe]">Level</span> = <span className="text-[#b5cea8]">{gameState.level}</span>;
+                  {/* 过A attempts for teams at A */}
+                  {gameState.teamLevels && [0, 1].filter(t => gameState.teamLevels![t] === 14).map(t => (
+                      <div key={t} className="text-sm font-normal text-[#6a9955]">
+                          {'// '}队伍{t} 过A 失败 {gameState.aAttempts?.[t] || 0}/{MAX_A_ATTEMPTS}{gameState.activeTeam === t ? ' (庄)' : ''}
+                      </div>
+                  ))}
               </div>
               
+              {/* 托管 Toggle */}
+              {gameState.phase !== 'Score' && !isSpectator && (
+                <button 
+                    onClick={() => onToggleAutoPlay?.()}
+                    className={`text-xs px-3 py-1 rounded border shadow-lg transition-all ${
+                        gameState.autoPlay?.[mySeat]
+                            ? 'bg-cyan-500 hover:bg-cyan-400 text-black border-cyan-300'
+                            : 'bg-[#252526] hover:bg-[#333333] text-[#d4d4d4] border-[#333333]'
+                    }`}
+                >
+                    {gameState.autoPlay?.[mySeat] ? '🤖 取消托管' : '🤖 托管'}
+                </button>
+              )}
+              
+              {/* Host Pause / Resume and how the next game starts */}
+              {isHost && me.player && matchRunning && (
+                <div className="flex gap-2">
+                    <button 
+                        onClick={() => paused ? onResumeMatch?.() : onPauseMatch?.()}
+                        className={`text-xs px-3 py-1 rounded border shadow-lg transition-all ${
+                            paused
+                                ? 'bg-green-700 hover:bg-green-600 text-white border-green-500'
+                                : 'bg-[#252526] hover:bg-[#333333] text-[#d4d4d4] border-[#333333]'
+                        }`}
+                    >
+                        {paused ? '▶ 恢复对局' : '⏸ 暂停'}
+                    </button>
+                    <button 
+                        onClick={() => onSetWaitForContinue?.(!roomState.waitForContinue)}
+                        className="text-xs px-3 py-1 rounded border shadow-lg transition-all bg-[#252526] hover:bg-[#333333] text-[#d4d4d4] border-[#333333]"
+                        title="切换下一局的开始方式"
+                    >
+                        下一局: {roomState.waitForContinue ? '等待全员继续' : '自动开始'}
+                    </button>
+                </div>
+              )}
+              
               {/* Host Force End Button */}
-              {me.player && me.player.seatIndex === 0 && (
+              {isHost && me.player && (
                 <button 
                     onClick={() => {
                         if (confirm('⚠️ 确定要强制结束当前游戏吗？所有进度将丢失。')) {
@@ -550,23 +669,23 @@ export const GameTable: React.FC<Props> = ({
                    <span className="text-[#9cdcfe] font-bold">模式:</span>
                    <button 
                        onClick={() => onSetGameMode?.(GameMode.Normal)}
-                       disabled={mySeat !== 0}
+                       disabled={!isHost}
                        className={`px-4 py-1 rounded font-bold transition-all ${
                            roomState.gameMode !== GameMode.Skill 
                                ? 'bg-blue-600 text-white' 
                                : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                       } ${mySeat !== 0 ? 'cursor-not-allowed opacity-70' : ''}`}
+                       } ${!isHost ? 'cursor-not-allowed opacity-70' : ''}`}
                    >
                        普通
                    </button>
                    <button 
                        onClick={() => onSetGameMode?.(GameMode.Skill)}
-                       disabled={mySeat !== 0}
+                       disabled={!isHost}
                        className={`px-4 py-1 rounded font-bold transition-all ${
                            roomState.gameMode === GameMode.Skill 
                                ? 'bg-purple-600 text-white' 
                                : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                       } ${mySeat !== 0 ? 'cursor-not-allowed opacity-70' : ''}`}
+                       } ${!isHost ? 'cursor-not-allowed opacity-70' : ''}`}
                    >
                        技能
                    </button>
@@ -575,11 +694,117 @@ export const GameTable: React.FC<Props> = ({
                    <div className="text-purple-400 text-sm">技能模式: 每人开局获得2张技能卡</div>
                )}
                
-               {me.player && !me.player.isReady && (
+               {/* Rule Set Toggle - Only host can change */}
+               <div className="flex items-center gap-4 bg-[#252526] px-4 py-2 rounded-lg border border-[#333333]">
+                   <span className="text-[#9cdcfe] font-bold">规则:</span>
+                   {Object.values(RULE_SETS).map(ruleSet => (
+                       <button 
+                           key={ruleSet.id}
+                           onClick={() => onSetRuleSet?.(ruleSet.id)}
+                           disabled={!isHost}
+                           className={`px-4 py-1 rounded font-bold transition-all ${
+                               getRuleSet(roomState.ruleSetId).id === ruleSet.id 
+                                   ? 'bg-blue-600 text-white' 
+                                   : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                           } ${!isHost ? 'cursor-not-allowed opacity-70' : ''}`}
+                       >
+                           {ruleSet.name}
+                       </button>
+                   ))}
+               </div>
+               <div className="text-gray-400 text-sm">{getRuleSet(roomState.ruleSetId).description}</div>
+               
+               {/* Turn Timer - Only host can change */}
+               <div className="flex items-center gap-4 bg-[#252526] px-4 py-2 rounded-lg border border-[#333333]">
+                   <span className="text-[#9cdcfe] font-bold">出牌时限:</span>
+                   {TURN_TIME_LIMITS.map(seconds => (
+                       <button 
+                           key={seconds}
+                           onClick={() => onSetTurnTimeLimit?.(seconds)}
+                           disabled={!isHost}
+                           className={`px-4 py-1 rounded font-bold transition-all ${
+                               (roomState.turnTimeLimit ?? DEFAULT_TURN_TIME_LIMIT) === seconds 
+                                   ? 'bg-blue-600 text-white' 
+                                   : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                           } ${!isHost ? 'cursor-not-allowed opacity-70' : ''}`}
+                       >
+                           {seconds > 0 ? `${seconds}秒` : '不限'}
+                       </button>
+                   ))}
+               </div>
+               
+               {/* Spectator View - Only host can change */}
+               <div className="flex items-center gap-4 bg-[#252526] px-4 py-2 rounded-lg border border-[#333333]">
+                   <span className="text-[#9cdcfe] font-bold">观战:</span>
+                   {[
+                       { view: SpectatorView.Hidden, label: '隐藏手牌' },
+                       { view: SpectatorView.FollowSeat, label: '跟随视角' },
+                       { view: SpectatorView.God, label: '上帝视角' }
+                   ].map(({ view, label }) => (
+                       <button 
+                           key={view}
+                           onClick={() => onSetSpectatorView?.(view, roomState.spectatorDelay ?? 0)}
+                           disabled={!isHost}
+                           className={`px-3 py-1 rounded font-bold transition-all ${
+                               (roomState.spectatorView ?? SpectatorView.Hidden) === view 
+                                   ? 'bg-blue-600 text-white' 
+                                   : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                           } ${!isHost ? 'cursor-not-allowed opacity-70' : ''}`}
+                       >
+                           {label}
+                       </button>
+                   ))}
+                   <span className="text-[#9cdcfe] font-bold">延迟:</span>
+                   <select
+                       value={roomState.spectatorDelay ?? 0}
+                       onChange={e => onSetSpectatorView?.(roomState.spectatorView ?? SpectatorView.Hidden, Number(e.target.value))}
+                       disabled={!isHost}
+                       className="bg-[#3c3c3c] text-white rounded px-2 py-1"
+                   >
+                       {SPECTATOR_DELAYS.map(seconds => (
+                           <option key={seconds} value={seconds}>{seconds > 0 ? `${seconds}秒` : '无'}</option>
+                       ))}
+                   </select>
+               </div>
+               
+               {/* Between games - Only host can change, also during the match */}
+               <div className="flex items-center gap-4 bg-[#252526] px-4 py-2 rounded-lg border border-[#333333]">
+                   <span className="text-[#9cdcfe] font-bold">下一局:</span>
+                   {[
+                       { wait: false, label: '倒计时自动开始' },
+                       { wait: true, label: '等待全员点击继续' }
+                   ].map(({ wait, label }) => (
+                       <button 
+                           key={label}
+                           onClick={() => onSetWaitForContinue?.(wait)}
+                           disabled={!isHost}
+                           className={`px-3 py-1 rounded font-bold transition-all ${
+                               !!roomState.waitForContinue === wait 
+                                   ? 'bg-blue-600 text-white' 
+                                   : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                           } ${!isHost ? 'cursor-not-allowed opacity-70' : ''}`}
+                       >
+                           {label}
+                       </button>
+                   ))}
+               </div>
+               {roomState.spectators && roomState.spectators.length > 0 && (
+                   <div className="text-gray-400 text-sm">👁 观战中: {roomState.spectators.join(', ')}</div>
+               )}
+               
+               {!isSpectator && me.player && !me.player.isReady && (
                    <button onClick={onReady} className="bg-blue-500 text-white px-6 py-2 rounded font-bold">准备</button>
                )}
-               {me.player && me.player.seatIndex === 0 && (
-                   <button onClick={onStart} className="bg-yellow-500 text-black px-6 py-2 rounded font-bold">开始游戏 (Host)</button>
+               {isHost && me.player && (
+                   <div className="flex items-center gap-2">
+                       <input
+                           className="w-32 bg-[#3c3c3c] text-white text-sm rounded px-2 py-2 focus:outline-none"
+                           placeholder="随机种子(可选)"
+                           value={seedInput}
+                           onChange={e => setSeedInput(e.target.value.replace(/[^0-9]/g, ''))}
+                       />
+                       <button onClick={() => onStart(seedInput ? Number(seedInput) : undefined)} className="bg-yellow-500 text-black px-6 py-2 rounded font-bold">开始游戏 (Host)</button>
+                   </div>
                )}
             </div>
         )}
@@ -615,7 +840,7 @@ export const GameTable: React.FC<Props> = ({
 
         {/* Controls Container */}
         <div className="mb-8 pointer-events-auto">
-            {gameState && gameState.currentTurn === mySeat && gameState.phase === 'Playing' && (
+            {!isSpectator && myHandOriginal.length > 0 && (
                 <div className="flex gap-4">
                     <button 
                       onClick={toggleViewMode}
@@ -624,31 +849,40 @@ export const GameTable: React.FC<Props> = ({
                       {viewMode === 'normal' ? '切换同花顺视图' : '切换普通视图'}
                     </button>
                     <button 
-                      onClick={handleHint}
-                      className="bg-yellow-500 hover:bg-yellow-600 text-black px-4 py-2 rounded-full font-bold shadow-lg mr-4"
+                      onClick={() => setArranged(prev => !prev)}
+                      className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-full font-bold shadow-lg mr-4"
+                      title="按最少手数组合排列手牌"
                     >
-                      提示
-                    </button>
-                    <button 
-                      onClick={handlePlay} 
-                      disabled={selectedCardIds.length === 0}
-                      className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-2 rounded-full font-bold shadow-lg disabled:opacity-50"
-                    >
-                      出牌
-                    </button>
-                    <button 
-                      onClick={onPass}
-                      className="bg-red-600 hover:bg-red-700 text-white px-8 py-2 rounded-full font-bold shadow-lg"
-                    >
-                      过
+                      {arranged ? `取消理牌 (${handScore ?? '-'}手)` : '理牌'}
                     </button>
+                    {gameState.currentTurn === mySeat && gameState.phase === 'Playing' && !gameState.autoPlay?.[mySeat] && (<>
+                        <button 
+                          onClick={handleHint}
+                          className="bg-yellow-500 hover:bg-yellow-600 text-black px-4 py-2 rounded-full font-bold shadow-lg mr-4"
+                        >
+                          提示
+                        </button>
+                        <button 
+                          onClick={handlePlay} 
+                          disabled={selectedCardIds.length === 0}
+                          className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-2 rounded-full font-bold shadow-lg disabled:opacity-50"
+                        >
+                          出牌
+                        </button>
+                        <button 
+                          onClick={onPass}
+                          className="bg-red-600 hover:bg-red-700 text-white px-8 py-2 rounded-full font-bold shadow-lg"
+                        >
+                          过
+                        </button>
+                    </>)}
                 </div>
             )}
             
             {amIPaying && (
                 <div className="flex gap-4">
                    <div className="text-yellow-400 font-bold text-xl animate-pulse">
-                       {gameState!.phase === 'Tribute' ? '请进贡最大牌' : '请还贡一张牌'}
+                       {gameState!.phase === 'Tribute' ? '请进贡最大牌（红心级牌除外）' : '请还贡一张10或以下的非级牌'}
                    </div>
                    <button 
                       onClick={handleTributeAction} 
@@ -684,7 +918,7 @@ export const GameTable: React.FC<Props> = ({
                           return cards.map((card, idx) => (
                               <div 
                                 key={card.id} 
-                                className={`absolute transition-transform ${straightFlushIds.has(card.id) ? 'ring-2 ring-yellow-400 shadow-[0_0_10px_rgba(250,204,21,0.5)] rounded' : ''}`}
+                                className={`absolute transition-transform ${straightFlushIds.has(card.id) ? 'ring-2 ring-yellow-400 shadow-[0_0_10px_rgba(250,204,21,0.5)] rounded' : wildFlushIds.has(card.id) ? 'ring-2 ring-pink-400 rounded' : ''}`}
                                 style={{ 
                                     bottom: `${(4 - sIdx) * 30 + (idx * 5)}px`, 
                                     zIndex: sIdx * 10 + idx 
@@ -714,31 +948,61 @@ export const GameTable: React.FC<Props> = ({
               </div>
             </div>
           )}
-          <div className="text-white font-bold mt-2">{me.player?.name} (Me)</div>
+          <div className="text-white font-bold mt-2 flex items-center gap-2">
+              {me.player?.name} {isSpectator ? '(观战中)' : '(Me)'}
+              {gameState?.autoPlay?.[mySeat] && (
+                  <span className="text-black text-xs font-bold bg-cyan-400 px-1 rounded">托管中</span>
+              )}
+              {isTimedSeat(mySeat) && (
+                  <span className="relative inline-block w-8 h-8">
+                      <TurnTimerRing deadline={gameState!.turnDeadline!} limit={gameState!.turnTimeLimit || 0} size={32} />
+                  </span>
+              )}
+          </div>
         </div>
       </div>
       
       {gameState && gameState.phase === 'Score' && (
+          lastResult && matchState ? (
+              <GameSummary
+                  result={lastResult}
+                  matchState={matchState}
+                  seatName={seatName}
+                  onShowScoreboard={() => setShowScoreboard(true)}
+                  mySeat={isSpectator ? null : mySeat}
+                  onContinue={onContinueMatch}
+                  onTogglePause={isHost ? () => paused ? onResumeMatch?.() : onPauseMatch?.() : undefined}
+              />
+          ) : (
           <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center text-white z-50">
               <h1 className="text-6xl font-bold mb-8 text-yellow-400">本局结束</h1>
               <div className="text-2xl mb-4">
-                  获胜顺序: {gameState.winners.map(w => {
-                      const p = roomState.players.find(pl => pl && pl.seatIndex === w);
-                      return p ? p.name : `Seat ${w}`;
-                  }).join(' → ')}
-              </div>
-              {gameState.teamLevels && (
-                  <div className="text-xl text-gray-300 mb-4">
-                      当前等级 - 队伍0: {gameState.teamLevels[0]} | 队伍1: {gameState.teamLevels[1]}
-                  </div>
-              )}
-              <div className="text-lg text-yellow-300 animate-pulse">
-                  ⏳ 3秒后自动开始下一局...
-              </div>
-              <div className="text-sm text-gray-400 mt-4">
-                  (对局将持续到某队打到A并连胜两次)
+                  获胜顺序: {gameState.winners.map(seatName).join(' → ')}
               </div>
           </div>
+          )
+      )}
+      
+      {/* Paused by the host (between games the summary shows it instead) */}
+      {gameState && paused && gameState.phase !== 'Score' && (
+          <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-yellow-500 text-black font-bold px-6 py-2 rounded-lg shadow-lg pointer-events-none">
+              ⏸ 房主已暂停对局
+          </div>
+      )}
+      
+      {/* Final summary once a team has passed A; stays until dismissed */}
+      {!gameState && finalResult && matchState && (
+          <GameSummary
+              result={finalResult}
+              matchState={matchState}
+              seatName={seatName}
+              onShowScoreboard={() => setShowScoreboard(true)}
+              onClose={onDismissMatchSummary}
+          />
+      )}
+      
+      {showScoreboard && matchState && (
+          <Scoreboard matchState={matchState} seatName={seatName} onClose={() => setShowScoreboard(false)} />
       )}
       
       {/* Hand Type Selection Modal (for wild cards) */}
@@ -748,13 +1012,13 @@ export const GameTable: React.FC<Props> = ({
                   <h2 className="text-2xl font-bold text-[#9cdcfe] mb-4">选择牌型</h2>
                   <p className="text-gray-400 mb-4">您的牌包含红心{gameState.level}（万能牌），可以组成以下牌型：</p>
                   <div className="flex flex-col gap-3">
-                      {possibleHands.map((hand, idx) => (
+                      {possibleHands.map(({ hand, description }, idx) => (
                           <button
                               key={idx}
                               onClick={() => handleHandTypeSelect(hand)}
                               className="bg-[#3c3c3c] hover:bg-[#4c4c4c] text-white px-6 py-3 rounded-lg font-bold transition-colors text-left"
                           >
-                              <div className="text-lg">{getHandDescription(hand, gameState.level)}</div>
+                              <div className="text-lg">{description}</div>
                               <div className="text-sm text-gray-400 mt-1">
                                   {hand.type} - 值: {hand.value}
                                   {hand.bombCount && ` (${hand.bombCount}张炸弹)`}
@@ -793,9 +1057,19 @@ export const GameTable: React.FC<Props> = ({
               currentRound={gameState.currentRound || 1}
               isOpen={showHistory}
               onClose={() => setShowHistory(false)}
+              replays={replays}
+              onOpenReplay={() => {
+                  setShowHistory(false);
+                  setShowReplay(true);
+              }}
           />
       )}
       
+      {/* Replay Viewer (finished games, all hands face up) */}
+      {showReplay && (
+          <ReplayViewer replays={replays} onClose={() => setShowReplay(false)} />
+      )}
+      
       {/* History Button (floating) */}
       {gameState && (
           <button
@@ -814,6 +1088,17 @@ export const GameTable: React.FC<Props> = ({
               )}
           </button>
       )}
+      
+      {/* Scoreboard Button (floating) */}
+      {gameState && matchState && matchState.games.length > 0 && (
+          <button
+              onClick={() => setShowScoreboard(true)}
+              className="fixed top-16 right-4 z-40 bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg shadow-lg font-medium transition"
+              title="本场对局每局的结果"
+          >
+              比分表 ({matchState.games.length})
+          </button>
+      )}
     </div>
   );
 };
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { GameMode } from '../../shared/types';
+import { RuleSetId, getRuleSet } from '../../shared/ruleset';
 
 interface RoomInfo {
   id: string;
@@ -7,16 +8,19 @@ interface RoomInfo {
   maxPlayers: number;
   inGame: boolean;
   gameMode: GameMode;
+  ruleSetId?: RuleSetId;
+  spectatorCount?: number;
   hostName: string;
 }
 
 interface Props {
   onJoin: (name: string, roomId: string) => void;
+  onWatch: (name: string, roomId: string) => void;
   roomList: RoomInfo[];
   onFetchRoomList: () => void;
 }
 
-export const Lobby: React.FC<Props> = ({ onJoin, roomList, onFetchRoomList }) => {
+export const Lobby: React.FC<Props> = ({ onJoin, onWatch, roomList, onFetchRoomList }) => {
   const [name, setName] = useState('');
   const [roomId, setRoomId] = useState('default');
   const [showRoomList, setShowRoomList] = useState(false);
@@ -45,6 +49,15 @@ export const Lobby: React.FC<Props> = ({ onJoin, roomList, onFetchRoomList }) =>
     }
   };
 
+  const handleWatch = (e: React.MouseEvent, targetRoomId: string) => {
+    e.stopPropagation();
+    if (name.trim()) {
+      onWatch(name, targetRoomId);
+    } else {
+      alert('请先输入用户名');
+    }
+  };
+
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-[#1e1e1e] text-gray-300 p-4">
       <h1 className="text-5xl font-bold mb-8 text-[#519aba] font-mono">VS Code - GuanDan</h1>
@@ -114,8 +127,18 @@ export const Lobby: React.FC<Props> = ({ onJoin, roomList, onFetchRoomList }) =>
                       <span>房主: {room.hostName}</span>
                       <span>{room.playerCount}/{room.maxPlayers} 人</span>
                     </div>
-                    <div className="text-xs text-gray-500 mt-1">
-                      模式: {room.gameMode === GameMode.Normal ? '普通' : '技能'}
+                    <div className="text-xs text-gray-500 mt-1 flex justify-between items-center">
+                      <span>模式: {room.gameMode === GameMode.Normal ? '普通' : '技能'} · 规则: {getRuleSet(room.ruleSetId).name}</span>
+                      <span className="flex items-center gap-2">
+                        <span>👁 {room.spectatorCount || 0}</span>
+                        <button
+                          type="button"
+                          onClick={e => handleWatch(e, room.id)}
+                          className="bg-[#3c3c3c] text-gray-300 px-2 py-0.5 rounded hover:bg-[#4a4a4a] border border-[#555555]"
+                        >
+                          观战
+                        </button>
+                      </span>
                     </div>
                   </div>
                 ))}
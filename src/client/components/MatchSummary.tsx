@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { MatchGameResult, MatchState, FINISH_PATTERN_NAMES } from '../../shared/types';
+
+const PLACES = ['头游', '二游', '三游', '末游'];
+const levelName = (level: number) => ({ 11: 'J', 12: 'Q', 13: 'K', 14: 'A' } as { [key: number]: string })[level] || String(level);
+const teamColor = (team: number) => team === 0 ? 'text-blue-300' : 'text-red-300';
+
+// Seconds until the server's next-game time (already on the local clock)
+function useCountdown(at: number | null): number | null {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (at === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [at]);
+  return at === null ? null : Math.max(0, Math.ceil((at - now) / 1000));
+}
+
+interface SummaryProps {
+  result: MatchGameResult;
+  matchState: MatchState;
+  seatName: (seat: number) => string;
+  onShowScoreboard: () => void;
+  onClose?: () => void; // Only once the match is over
+  mySeat?: number | null; // null for spectators
+  onContinue?: () => void;
+  onTogglePause?: () => void; // Host only
+}
+
+// Shown between games: how the game ended, what it did to the levels and what comes next
+export const GameSummary: React.FC<SummaryProps> = ({ result, matchState, seatName, onShowScoreboard, onClose, mySeat = null, onContinue, onTogglePause }) => {
+  const countdown = useCountdown(matchState.nextGameAt);
+  const matchOver = matchState.matchWinner !== null;
+  // Waiting for everyone's 继续 before the next game
+  const voting = !matchOver && matchState.awaitingNextGame && matchState.waitForContinue;
+  const continued = mySeat !== null && matchState.continueVotes.includes(mySeat);
+  const votes = matchState.continueSeats.filter(seat => matchState.continueVotes.includes(seat)).length;
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex items-center justify-center text-white z-50">
+      <div className="bg-gray-900 border-2 border-gray-700 rounded-lg shadow-2xl p-6 w-11/12 max-w-xl">
+        <h1 className="text-4xl font-bold mb-1 text-yellow-400 text-center">
+          {matchOver ? `🎉 队伍${matchState.matchWinner} 过A，赢得对局！` : `第 ${result.game} 局结束`}
+        </h1>
+        <p className="text-center text-gray-400 mb-4">
+          打{levelName(result.level)} · 庄家 队伍{result.bankerTeam}
+        </p>
+
+        {/* Finishing order */}
+        <div className="grid grid-cols-4 gap-2 mb-4">
+          {result.winners.map((seat, i) => (
+            <div key={seat} className="bg-gray-800 rounded p-2 text-center">
+              <div className="text-xs text-gray-400">{PLACES[i]}</div>
+              <div className={`font-bold truncate ${teamColor(seat % 2)}`}>{seatName(seat)}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="text-xl text-center mb-3">
+          <span className={teamColor(result.winningTeam)}>队伍{result.winningTeam}</span> {FINISH_PATTERN_NAMES[result.pattern]}
+        </div>
+
+        {/* Level changes */}
+        <div className="flex justify-center gap-8 mb-3">
+          {[0, 1].map(team => (
+            <div key={team} className="text-center">
+              <div className={`text-sm ${teamColor(team)}`}>队伍{team}</div>
+              <div className="text-2xl font-mono">
+                {levelName(result.levelsBefore[team])}
+                {result.levelsAfter[team] !== result.levelsBefore[team] && (
+                  <span className={result.levelsAfter[team] < result.levelsBefore[team] ? 'text-red-400' : 'text-green-400'}>
+                    {' → '}{levelName(result.levelsAfter[team])}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {result.failedA && (
+          <div className="text-center text-orange-300 mb-2">
+            队伍{result.bankerTeam} 过A失败
+            {result.fellBack ? `，${matchState.maxAAttempts}次未过，退回打2` : ` (${result.aAttempts[result.bankerTeam]}/${matchState.maxAAttempts})`}
+          </div>
+        )}
+
+        {/* What the next game looks like */}
+        {!matchOver && (
+          <div className="bg-gray-800 rounded p-3 text-sm text-gray-300 mb-4">
+            <div>下局庄家：队伍{result.nextBanker}，打{levelName(result.levelsAfter[result.nextBanker])}</div>
+            <div>
+              进贡：
+              {result.nextTribute.length === 0
+                ? '不进贡'
+                : result.nextTribute.map(t => `${seatName(t.from)} → ${seatName(t.to)}`).join('，')}
+              {result.nextTribute.length > 0 && <span className="text-gray-500">（抗贡时免除）</span>}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-center gap-3">
+          {matchState.paused && !matchOver && (
+            <span className="text-yellow-300">⏸ 房主已暂停对局</span>
+          )}
+          {countdown !== null && (
+            <span className="text-yellow-300 animate-pulse">⏳ {countdown} 秒后开始下一局</span>
+          )}
+          {voting && (
+            <span className="text-gray-300">已继续 {votes}/{matchState.continueSeats.length}</span>
+          )}
+          {voting && mySeat !== null && onContinue && (
+            <button
+              onClick={onContinue}
+              disabled={continued}
+              className={`px-4 py-2 rounded font-bold ${continued ? 'bg-gray-600 text-gray-300 cursor-default' : 'bg-green-600 hover:bg-green-700'}`}
+            >
+              {continued ? '等待其他玩家' : '继续'}
+            </button>
+          )}
+          {onTogglePause && !matchOver && (
+            <button onClick={onTogglePause} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded">
+              {matchState.paused ? '▶ 恢复' : '⏸ 暂停'}
+            </button>
+          )}
+          <button onClick={onShowScoreboard} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded">
+            比分表
+          </button>
+          {onClose && (
+            <button onClick={onClose} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded">
+              返回房间
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ScoreboardProps {
+  matchState: MatchState;
+  seatName: (seat: number) => string;
+  onClose: () => void;
+}
+
+// Every finished game of the match, oldest first
+export const Scoreboard: React.FC<ScoreboardProps> = ({ matchState, seatName, onClose }) => (
+  <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+    <div className="bg-gray-900 rounded-lg shadow-2xl w-11/12 max-w-4xl max-h-[83%] flex flex-col border-2 border-gray-700">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <div>
+          <h2 className="text-2xl font-bold text-white">比分表</h2>
+          <p className="text-sm text-gray-400">
+            队伍0 打{levelName(matchState.teamLevels[0])} · 队伍1 打{levelName(matchState.teamLevels[1])} · 庄家 队伍{matchState.activeTeam}
+            {matchState.seed !== undefined ? ` · 种子 ${matchState.seed}` : ''}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-3xl leading-none px-3 py-1">×</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {matchState.games.length === 0 ? (
+          <div className="text-center text-gray-500 py-8">还没有完成的牌局</div>
+        ) : (
+          <table className="w-full text-sm text-gray-300">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700">
+                <th className="py-2 text-left">局</th>
+                <th className="text-left">打</th>
+                <th className="text-left">庄家</th>
+                <th className="text-left">名次</th>
+                <th className="text-left">结果</th>
+                <th className="text-left">等级 (队伍0 / 队伍1)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {matchState.games.map(g => (
+                <tr key={g.game} className="border-b border-gray-800">
+                  <td className="py-2">{g.game}</td>
+                  <td>{levelName(g.level)}</td>
+                  <td className={teamColor(g.bankerTeam)}>队伍{g.bankerTeam}</td>
+                  <td>
+                    {g.winners.map((seat, i) => (
+                      <span key={seat} className={teamColor(seat % 2)}>{i > 0 ? ' → ' : ''}{seatName(seat)}</span>
+                    ))}
+                  </td>
+                  <td>
+                    <span className={teamColor(g.winningTeam)}>队伍{g.winningTeam}</span> {FINISH_PATTERN_NAMES[g.pattern]}
+                    {g.passedA && <span className="ml-1 text-yellow-400">过A</span>}
+                    {g.failedA && <span className="ml-1 text-orange-300">{g.fellBack ? '退回2' : '过A失败'}</span>}
+                  </td>
+                  <td className="font-mono">
+                    {levelName(g.levelsAfter[0])} / {levelName(g.levelsAfter[1])}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  </div>
+);
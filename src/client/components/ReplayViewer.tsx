@@ -0,0 +1,191 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { GameReplay, Card as CardType } from '../../shared/types';
+import { replayHandsAt, hashHands } from '../../shared/replay';
+import { sortCards } from '../../shared/rules';
+import { Card } from './Card';
+
+interface Props {
+  replays: GameReplay[];
+  onClose: () => void;
+}
+
+// Save replays as JSON so a game can be shared or attached to a bug report
+export function downloadReplays(replays: GameReplay[]) {
+  const blob = new Blob([JSON.stringify(replays, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `guandan-replay-${replays[0]?.roomId || 'game'}-${Date.now()}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Step through a finished game with all four hands face up
+export const ReplayViewer: React.FC<Props> = ({ replays: initialReplays, onClose }) => {
+  const [replays, setReplays] = useState<GameReplay[]>(initialReplays);
+  const [gameIdx, setGameIdx] = useState(Math.max(0, initialReplays.length - 1));
+  const [step, setStep] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const replay = replays[gameIdx];
+  const total = replay ? replay.actions.length : 0;
+  const hands = useMemo(() => replay ? replayHandsAt(replay, step) : [], [replay, step]);
+  const action = replay && step > 0 ? replay.actions[step - 1] : null;
+  // The rebuilt hands should hash to what the server recorded
+  const hashOk = !action || hashHands(hands) === action.stateHash;
+
+  useEffect(() => setStep(0), [gameIdx]);
+  
+  // Replays fetched after opening replace what is shown
+  useEffect(() => {
+    if (initialReplays.length > 0) {
+      setReplays(initialReplays);
+      setGameIdx(initialReplays.length - 1);
+    }
+  }, [initialReplays]);
+
+  // Keyboard: ← / → to step
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') setStep(s => Math.max(0, s - 1));
+      if (e.key === 'ArrowRight') setStep(s => Math.min(total, s + 1));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [total]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        const data = JSON.parse(text);
+        const loaded: GameReplay[] = Array.isArray(data) ? data : [data];
+        if (loaded.length === 0 || !loaded.every(r => Array.isArray(r.initialHands) && Array.isArray(r.actions))) {
+          throw new Error('invalid');
+        }
+        setReplays(loaded);
+        setGameIdx(0);
+        setStep(0);
+        setLoadError(null);
+      } catch {
+        setLoadError('无法读取回放文件');
+      }
+    });
+  };
+
+  const renderHand = (seat: number) => {
+    if (!replay) return null;
+    const player = replay.players[seat];
+    const cards: CardType[] = sortCards(hands[seat] || [], replay.level);
+    const acting = action?.playerIndex === seat;
+    const position = replay.winners.indexOf(seat);
+    return (
+      <div className={`rounded-lg p-3 border ${acting ? 'border-yellow-400 bg-yellow-900/20' : 'border-gray-700 bg-gray-800/50'}`}>
+        <div className="flex items-center gap-2 mb-2 text-sm">
+          <span className="font-bold text-white">{player?.name || `Seat ${seat}`}</span>
+          <span className="text-gray-400">座位 {seat} · {cards.length} 张</span>
+          {player?.isBot && <span className="text-xs bg-gray-600 text-white px-1 rounded">Bot</span>}
+          {position !== -1 && step === total && (
+            <span className="text-xs bg-yellow-500 text-black px-1 rounded font-bold">{['头游', '二游', '三游', '末游'][position]}</span>
+          )}
+        </div>
+        <div className="flex flex-wrap -space-x-3 min-h-12">
+          {cards.map(card => <Card key={card.id} card={card} small />)}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-lg shadow-2xl w-11/12 max-w-6xl h-5/6 flex flex-col border-2 border-gray-700">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <div>
+            <h2 className="text-2xl font-bold text-white">牌局回放</h2>
+            {replay && (
+              <p className="text-sm text-gray-400">
+                等级 {replay.level} · 庄家 Team {replay.activeTeam}{replay.seed !== undefined ? ` · 种子 ${replay.seed}` : ''} · 第 {step}/{total} 步
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="text-sm text-gray-300 bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded cursor-pointer">
+              打开文件
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+            </label>
+            <button onClick={onClose} className="text-gray-400 hover:text-white text-3xl leading-none px-3 py-1">×</button>
+          </div>
+        </div>
+
+        {loadError && <div className="px-4 py-2 text-red-400 text-sm">{loadError}</div>}
+
+        {!replay ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500">暂无已完成的牌局</div>
+        ) : (
+          <>
+            {/* Game picker */}
+            {replays.length > 1 && (
+              <div className="px-4 pt-3 flex flex-wrap gap-2">
+                {replays.map((r, i) => (
+                  <button
+                    key={i}
+                    onClick={() => setGameIdx(i)}
+                    className={`px-3 py-1 rounded-full text-sm ${i === gameIdx ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+                  >
+                    第 {i + 1} 局 (打{r.level})
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Table: partners face each other */}
+            <div className="flex-1 overflow-y-auto p-4 grid grid-cols-2 gap-3">
+              {renderHand(2)}
+              {renderHand(3)}
+              {renderHand(1)}
+              {renderHand(0)}
+            </div>
+
+            {/* Current action */}
+            <div className="px-4 py-3 border-t border-gray-700 min-h-24">
+              {action ? (
+                <div className="flex items-center gap-4">
+                  <div className="text-white">{action.message}</div>
+                  <div className="flex -space-x-3">
+                    {(action.details?.cards || (action.details?.card ? [action.details.card] : [])).map((c: CardType) => (
+                      <Card key={c.id} card={c} small />
+                    ))}
+                  </div>
+                  <div className={`ml-auto text-xs ${hashOk ? 'text-green-400' : 'text-red-400'}`} title={action.stateHash}>
+                    {hashOk ? '✓ 状态一致' : '✗ 状态不一致'}
+                  </div>
+                </div>
+              ) : (
+                <div className="text-gray-400">开局发牌</div>
+              )}
+            </div>
+
+            {/* Controls */}
+            <div className="p-4 border-t border-gray-700 flex items-center gap-3">
+              <button onClick={() => setStep(0)} disabled={step === 0} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-40">⏮</button>
+              <button onClick={() => setStep(s => Math.max(0, s - 1))} disabled={step === 0} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-40">◀ 上一步</button>
+              <input
+                type="range"
+                min={0}
+                max={total}
+                value={step}
+                onChange={e => setStep(Number(e.target.value))}
+                className="flex-1"
+              />
+              <button onClick={() => setStep(s => Math.min(total, s + 1))} disabled={step === total} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-40">下一步 ▶</button>
+              <button onClick={() => setStep(total)} disabled={step === total} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-40">⏭</button>
+              <button onClick={() => downloadReplays([replay])} className="px-4 py-2 bg-green-700 hover:bg-green-600 text-white rounded">下载本局</button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+
+interface Props {
+  deadline: number;   // Local epoch ms when the turn runs out
+  limit: number;      // Full turn length in seconds
+  size?: number;
+}
+
+// Countdown ring drawn around a player's avatar
+export const TurnTimerRing: React.FC<Props> = ({ deadline, limit, size = 56 }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const remaining = Math.max(0, deadline - now);
+  const fraction = limit > 0 ? Math.min(1, remaining / (limit * 1000)) : 0;
+  const seconds = Math.ceil(remaining / 1000);
+
+  const stroke = 4;
+  const radius = (size - stroke) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const color = seconds <= 5 ? '#ef4444' : seconds <= 10 ? '#facc15' : '#4ade80';
+
+  return (
+    <div className="absolute pointer-events-none" style={{ width: size, height: size, left: '50%', top: '50%', transform: 'translate(-50%, -50%)' }}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke="rgba(0,0,0,0.3)" strokeWidth={stroke} />
+        <circle
+          cx={size / 2} cy={size / 2} r={radius} fill="none"
+          stroke={color} strokeWidth={stroke} strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - fraction)}
+          style={{ transition: 'stroke-dashoffset 0.25s linear' }}
+        />
+      </svg>
+      <div className="absolute -bottom-2 -left-2 bg-black/70 text-xs font-bold px-1 rounded" style={{ color }}>
+        {seconds}
+      </div>
+    </div>
+  );
+};
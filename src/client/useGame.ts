@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { socket } from './socket';
-import { Card, GameMode, SkillCard, Hand, HistoryEntry } from '../shared/types';
+import { Card, GameMode, SkillCard, Hand, HistoryEntry, SpectatorView, GameReplay, MatchState } from '../shared/types';
+import { RuleSetId } from '../shared/ruleset';
 
 export interface GameState {
   phase: string;
@@ -16,6 +17,7 @@ export interface GameState {
   };
   teamLevels?: { [key: number]: number };
   activeTeam?: number;
+  aAttempts?: { [key: number]: number }; // Failed 过A attempts per team
   // Skill mode fields
   gameMode?: GameMode;
   mySkillCards?: SkillCard[];
@@ -25,12 +27,44 @@ export interface GameState {
   // Game history
   history?: HistoryEntry[];
   currentRound?: number;
+  // Turn timer (deadline re-based on the local clock on receipt)
+  turnDeadline?: number | null;
+  turnTimeLimit?: number;
+  serverTime?: number;
+  // Seats under bot control (托管)
+  autoPlay?: boolean[];
+  // Present only in states sent to spectators
+  spectator?: { view: SpectatorView, followSeat: number | null, delay: number };
 }
 
 export interface RoomState {
   roomId: string;
   players: ({ name: string, seatIndex: number, isReady: boolean } | null)[];
   gameMode?: GameMode;
+  ruleSetId?: RuleSetId;
+  turnTimeLimit?: number;
+  waitForContinue?: boolean;
+  spectators?: string[];
+  spectatorView?: SpectatorView;
+  spectatorDelay?: number;
+}
+
+// Session kept across refreshes so the server can give the seat back
+const SESSION_KEY = 'guandan.session';
+
+interface StoredSession {
+  token: string;
+  roomId: string;
+  name: string;
+}
+
+function loadSession(): StoredSession | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
 }
 
 export function useGame() {
@@ -38,7 +72,11 @@ export function useGame() {
   const [roomState, setRoomState] = useState<RoomState | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [mySeat, setMySeat] = useState<number>(-1);
+  const [isSpectator, setIsSpectator] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [replays, setReplays] = useState<GameReplay[]>([]);
+  const [matchState, setMatchState] = useState<MatchState | null>(null);
   const [chatMessages, setChatMessages] = useState<{sender: string, text: string, time: string, seatIndex: number}[]>([]);
   const [roomList, setRoomList] = useState<Array<{
     id: string;
@@ -46,10 +84,40 @@ export function useGame() {
     maxPlayers: number;
     inGame: boolean;
     gameMode: GameMode;
+    ruleSetId?: RuleSetId;
+    spectatorCount?: number;
     hostName: string;
   }>>([]);
 
   useEffect(() => {
+    // Rejoin our seat whenever the socket (re)connects
+    const resume = () => {
+      const session = loadSession();
+      if (session) {
+        socket.emit('resumeSession', { roomId: session.roomId, sessionToken: session.token });
+      }
+    };
+    socket.on('connect', resume);
+    if (socket.connected) resume();
+
+    socket.on('session', (session: StoredSession) => {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    });
+
+    socket.on('sessionExpired', () => {
+      localStorage.removeItem(SESSION_KEY);
+    });
+
+    socket.on('spectating', () => {
+      setIsSpectator(true);
+      setMySeat(0);
+      setInRoom(true);
+    });
+
+    socket.on('chatHistory', (history: any[]) => {
+        setChatMessages(history);
+    });
+
     socket.on('roomState', (state: any) => {
       setRoomState(state);
       setInRoom(true);
@@ -65,6 +133,12 @@ export function useGame() {
 
     socket.on('gameState', (state: GameState) => {
       console.log(`[Client] Received gameState: currentTurn=${state.currentTurn}, phase=${state.phase}, mySeat will compare with ${state.currentTurn}`);
+      if (state.turnDeadline && state.serverTime) {
+        state.turnDeadline = Date.now() + (state.turnDeadline - state.serverTime);
+      }
+      if (state.spectator) {
+        setMySeat(state.spectator.followSeat ?? 0);
+      }
       setGameState(state);
     });
 
@@ -73,6 +147,11 @@ export function useGame() {
       setTimeout(() => setError(null), 3000);
     });
     
+    socket.on('antiTribute', (data: { seats: number[], startPlayer: number, message: string }) => {
+      setNotice(data.message);
+      setTimeout(() => setNotice(null), 4000);
+    });
+    
     socket.on('gameOver', (data: { winners: number[] }) => {
       console.log(`[Client] Game Over! Winners: ${data.winners.join(', ')}`);
       // The gameState should already be updated via broadcastGameState
@@ -80,15 +159,28 @@ export function useGame() {
       // Note: Game will auto-restart after 3 seconds (handled by Match)
     });
     
+    // Scoreboard and between-game summary (next-game time re-based on the local clock)
+    socket.on('matchState', (state: MatchState) => {
+      if (state.nextGameAt && state.serverTime) {
+        state.nextGameAt = Date.now() + (state.nextGameAt - state.serverTime);
+      }
+      setMatchState(state);
+    });
+    
     socket.on('matchOver', (data: { winningTeam: number, winners: any[], finalLevels: any }) => {
       console.log(`[Client] MATCH OVER! Team ${data.winningTeam} wins!`);
-      alert(`🎉 对局结束！\n获胜队伍：${data.winningTeam === 0 ? '0号和2号' : '1号和3号'}\n最终等级：${JSON.stringify(data.finalLevels)}`);
+      // The final summary comes from matchState and stays up until dismissed
       setGameState(null); // Clear game state to return to lobby
     });
 
     socket.on('gameTerminated', () => {
         console.log('[Client] Game Terminated by Host');
         setGameState(null); // Clear game state to return to lobby
+        setMatchState(null);
+    });
+
+    socket.on('replays', (list: GameReplay[]) => {
+        setReplays(list);
     });
 
     socket.on('roomList', (list: any[]) => {
@@ -97,25 +189,52 @@ export function useGame() {
     });
 
     return () => {
+      socket.off('connect', resume);
+      socket.off('session');
+      socket.off('sessionExpired');
+      socket.off('spectating');
+      socket.off('chatHistory');
       socket.off('roomState');
       socket.off('gameState');
       socket.off('error');
+      socket.off('antiTribute');
       socket.off('gameOver');
+      socket.off('matchState');
+      socket.off('matchOver');
       socket.off('gameTerminated');
+      socket.off('replays');
       socket.off('roomList');
     };
   }, []);
 
   const joinRoom = (name: string, roomId: string) => {
-    socket.emit('joinRoom', { playerName: name, roomId });
+    const session = loadSession();
+    socket.emit('joinRoom', {
+      playerName: name,
+      roomId,
+      sessionToken: session && session.roomId === (roomId || 'default') ? session.token : undefined
+    });
+  };
+
+  const spectateRoom = (name: string, roomId: string) => {
+    socket.emit('spectateRoom', { playerName: name, roomId });
+  };
+
+  const spectateSeat = (seat: number | null) => {
+    socket.emit('spectateSeat', seat);
+  };
+
+  const setSpectatorView = (view: SpectatorView, delay: number) => {
+    socket.emit('setSpectatorView', { view, delay });
   };
 
   const setReady = () => {
     socket.emit('ready');
   };
   
-  const startGame = () => {
-      socket.emit('start');
+  // Optional seed replays an exact match (see 种子 in the scoreboard once a match is over)
+  const startGame = (seed?: number) => {
+      socket.emit('start', seed !== undefined ? { seed } : undefined);
   }
 
   const playHand = (cards: Card[], handType?: Hand) => {
@@ -146,27 +265,69 @@ export function useGame() {
       socket.emit('setGameMode', mode);
   }
   
+  const setRuleSet = (ruleSetId: RuleSetId) => {
+      socket.emit('setRuleSet', ruleSetId);
+  }
+  
+  const setTurnTimeLimit = (seconds: number) => {
+      socket.emit('setTurnTimeLimit', seconds);
+  }
+  
   const useSkill = (skillId: string, targetSeat?: number) => {
       socket.emit('useSkill', { skillId, targetSeat });
   }
 
+  const toggleAutoPlay = () => {
+      socket.emit('toggleAutoPlay');
+  }
+
   const forceEndGame = () => {
       socket.emit('forceEndGame');
   }
 
+  const pauseMatch = () => {
+      socket.emit('pauseMatch');
+  }
+
+  const resumeMatch = () => {
+      socket.emit('resumeMatch');
+  }
+
+  const setWaitForContinue = (enabled: boolean) => {
+      socket.emit('setWaitForContinue', enabled);
+  }
+
+  // Ready for the next game (when the host waits for everyone)
+  const continueMatch = () => {
+      socket.emit('continueMatch');
+  }
+
+  const requestReplays = () => {
+      socket.emit('getReplays');
+  }
+
   const fetchRoomList = () => {
       socket.emit('getRoomList');
   }
 
+  // Close the final summary of a finished match
+  const dismissMatchSummary = () => {
+      setMatchState(null);
+  }
+
   return {
     inRoom,
     roomState,
     gameState,
     mySeat,
     setMySeat,
+    isSpectator,
     error,
+    notice,
     chatMessages,
     roomList,
-    actions: { joinRoom, setReady, playHand, passTurn, startGame, payTribute, returnTribute, sendChat, switchSeat, setGameMode, useSkill, forceEndGame, fetchRoomList }
+    replays,
+    matchState,
+    actions: { joinRoom, spectateRoom, spectateSeat, setSpectatorView, setReady, playHand, passTurn, startGame, payTribute, returnTribute, sendChat, switchSeat, setGameMode, setRuleSet, setTurnTimeLimit, useSkill, toggleAutoPlay, forceEndGame, pauseMatch, resumeMatch, setWaitForContinue, continueMatch, requestReplays, fetchRoomList, dismissMatchSummary }
   };
 }
@@ -1,24 +1,22 @@
-import { Server, Socket } from 'socket.io';
 import { createDeck, shuffleDeck, updateCardProperties } from '../shared/deck';
-import { getHandType, compareHands, sortCards, getLargestCard, getLogicValue } from '../shared/rules';
-import { Card, Hand, HandType, GameMode, SkillCard, SkillCardType, Suit, Rank, HistoryEntry, HistoryEventType } from '../shared/types';
+import { getHandType, getAllPossibleHandTypes, compareHands, sortCards, isValidTributeCard, getReturnTributeCandidates } from '../shared/rules';
+import { Card, Hand, HandType, GameMode, SkillCard, SkillCardType, Suit, Rank, HistoryEntry, HistoryEventType, PlayErrorCode, DEFAULT_TURN_TIME_LIMIT, GameReplay, REPLAY_VERSION } from '../shared/types';
 import { Bot } from '../shared/bot';
+import { SeededRng, createRng, randomSeed, randomInt } from '../shared/random';
+import { hashHands, diffHands } from '../shared/replay';
+import { RuleSet, DEFAULT_RULE_SET } from '../shared/ruleset';
+import { GameSnapshot } from './persistence';
+import { GamePhase, PhaseMachine, PhaseAction, PHASE_NAMES } from '../shared/phase';
+import { LevelOutcome, applyGameResult, tributeOrder, tributeLeader, teamName } from '../shared/progression';
+import { GameTransport, PlayerChannel, Clock, TimerHandle, systemClock } from './transport';
 
 interface Player {
   id: string;
   name: string;
-  socket?: Socket;
+  socket?: PlayerChannel;
   seatIndex: number;
   isBot?: boolean;
-}
-
-enum GamePhase {
-  Waiting = 'Waiting',
-  Dealing = 'Dealing',
-  Tribute = 'Tribute',
-  ReturnTribute = 'ReturnTribute',
-  Playing = 'Playing',
-  Score = 'Score'
+  isDisconnected?: boolean;
 }
 
 interface TributeState {
@@ -28,19 +26,53 @@ interface TributeState {
 }
 
 export class Game {
-  io: Server;
+  transport: GameTransport;
+  // Timers and timestamps; Match swaps in its own clock before start()
+  clock: Clock = systemClock;
   roomId: string;
   players: Player[];
   
   level: number = 2; 
-  currentPhase: GamePhase = GamePhase.Waiting;
+  
+  // All phase changes go through the machine (see shared/phase.ts for the allowed moves)
+  private phases: PhaseMachine = new PhaseMachine(GamePhase.Waiting, {
+      [GamePhase.Tribute]: { onEnter: () => this.processAutoTribute() },
+      [GamePhase.ReturnTribute]: {
+          onEnter: () => this.processAutoTribute(),
+          onExit: () => { this.tributeState = { pendingTributes: [], pendingReturns: [] }; }
+      },
+      [GamePhase.Playing]: {
+          onEnter: () => {
+              this.passCount = 0;
+              this.lastHand = null;
+              this.roundActions = {};
+          }
+      }
+  }, (from, to) => this.addHistoryEntry(
+      HistoryEventType.PhaseChange,
+      `阶段变化: ${PHASE_NAMES[from]} → ${PHASE_NAMES[to]}`,
+      undefined,
+      { from, to }
+  ));
+  
+  get currentPhase(): GamePhase {
+      return this.phases.current;
+  }
   
   // Callback for when game ends (used by Match)
   onGameEnd?: (winners: number[]) => void;
+  // Callback after every state broadcast (used to feed spectators)
+  onBroadcast?: () => void;
+  // Callback after every change worth saving: each history entry, or 托管 switching
+  onChange?: () => void;
   
   // Lifecycle management
   private isActive: boolean = true;
-  private pendingTimeouts: NodeJS.Timeout[] = [];
+  private pendingTimeouts: TimerHandle[] = [];
+  
+  // Paused by the host: no actions, bot turns or turn timer until resumed
+  paused: boolean = false;
+  private frozenTurnTime: number | null = null; // Time left on the turn timer when paused (ms)
   
   hands: Card[][] = [[], [], [], []];
   currentTurn: number = 0;
@@ -57,8 +89,28 @@ export class Game {
   // Track Team Levels
   teamLevels: { [key: number]: number } = { 0: 2, 1: 2 }; // Team 0 (0,2), Team 1 (1,3)
   activeTeam: number = 0; // Who is upgrading currently (Banker Team)
+  aAttempts: { [key: number]: number } = { 0: 0, 1: 0 }; // Failed 过A attempts, kept by Match
   prevWinners: number[] = [];
   
+  // Rule variant (straight flush rank, tie tribute, level steps)
+  ruleSet: RuleSet = DEFAULT_RULE_SET;
+  
+  // Human seats currently played by the bot (托管), e.g. after a disconnect
+  autoPlay: boolean[] = [false, false, false, false];
+  
+  // Turn timer: seconds per turn (0 = off) and the current deadline (epoch ms)
+  turnTimeLimit: number = DEFAULT_TURN_TIME_LIMIT;
+  turnDeadline: number | null = null;
+  private turnTimer: TimerHandle | null = null;
+  private turnTimerKey: string | null = null;
+  private moveCount: number = 0; // Accepted plays and passes, so a repeat turn restarts the clock
+  
+  // Seed for every random draw in this game (deal, skill cards, skill effects, bot whims),
+  // so the same seed and the same moves replay identically
+  seed: number = randomSeed();
+  private rng: SeededRng = createRng(this.seed);
+  private generatedCardCount: number = 0;
+  
   // Skill Mode
   gameMode: GameMode = GameMode.Normal;
   skillCards: SkillCard[][] = [[], [], [], []];  // Each player's skill cards
@@ -69,12 +121,24 @@ export class Game {
   history: HistoryEntry[] = [];
   private historyIdCounter: number = 0;
   currentRound: number = 0;
+  
+  // Structured replay of this game; replayHands is the snapshot the next action is diffed against
+  replay: GameReplay | null = null;
+  private replayHands: Card[][] = [];
+  private static readonly REPLAY_ACTIONS = [
+      HistoryEventType.Play, HistoryEventType.Pass, HistoryEventType.Tribute,
+      HistoryEventType.ReturnTribute, HistoryEventType.SkillUse
+  ];
 
-  constructor(io: Server, roomId: string, players: Player[], gameMode: GameMode = GameMode.Normal) {
-    this.io = io;
+  constructor(transport: GameTransport, roomId: string, players: Player[], gameMode: GameMode = GameMode.Normal, ruleSet: RuleSet = DEFAULT_RULE_SET) {
+    this.transport = transport;
     this.roomId = roomId;
     this.players = players;
     this.gameMode = gameMode;
+    this.ruleSet = ruleSet;
+    
+    // Players still away when the game starts stay under bot control
+    this.autoPlay = this.players.map(p => !p.isBot && !!p.isDisconnected);
     
     // Setup listeners for human players
     this.players.forEach(p => {
@@ -84,6 +148,98 @@ export class Game {
     });
   }
   
+  // Everything needed to continue this game in a fresh process
+  toSnapshot(): GameSnapshot {
+      return JSON.parse(JSON.stringify({
+          seed: this.seed,
+          rngState: this.rng.state(),
+          generatedCardCount: this.generatedCardCount,
+          level: this.level,
+          currentPhase: this.currentPhase,
+          currentTurn: this.currentTurn,
+          hands: this.hands,
+          lastHand: this.lastHand,
+          passCount: this.passCount,
+          roundActions: this.roundActions,
+          winners: this.winners,
+          tributeState: this.tributeState,
+          teamLevels: this.teamLevels,
+          activeTeam: this.activeTeam,
+          prevWinners: this.prevWinners,
+          autoPlay: this.autoPlay,
+          moveCount: this.moveCount,
+          skillCards: this.skillCards,
+          skipNextTurn: this.skipNextTurn,
+          history: this.history,
+          historyIdCounter: this.historyIdCounter,
+          currentRound: this.currentRound,
+          replay: this.replay,
+          replayHands: this.replayHands
+      }));
+  }
+  
+  // Load a saved game instead of calling start(); resume() then restarts timers and bots
+  restore(snapshot: GameSnapshot) {
+      this.seed = snapshot.seed;
+      this.rng = createRng(snapshot.rngState);
+      this.generatedCardCount = snapshot.generatedCardCount;
+      this.level = snapshot.level;
+      this.phases.restore(snapshot.currentPhase as GamePhase);
+      this.currentTurn = snapshot.currentTurn;
+      this.hands = snapshot.hands;
+      this.lastHand = snapshot.lastHand;
+      this.passCount = snapshot.passCount;
+      this.roundActions = snapshot.roundActions;
+      this.winners = snapshot.winners;
+      this.tributeState = snapshot.tributeState;
+      this.teamLevels = snapshot.teamLevels;
+      this.activeTeam = snapshot.activeTeam;
+      this.prevWinners = snapshot.prevWinners;
+      this.autoPlay = snapshot.autoPlay;
+      this.moveCount = snapshot.moveCount;
+      this.skillCards = snapshot.skillCards;
+      this.skipNextTurn = snapshot.skipNextTurn;
+      this.history = snapshot.history;
+      this.historyIdCounter = snapshot.historyIdCounter;
+      this.currentRound = snapshot.currentRound;
+      this.replay = snapshot.replay;
+      this.replayHands = snapshot.replayHands;
+  }
+  
+  resume() {
+      console.log(`[Game] Resuming restored game in room ${this.roomId}, phase ${this.currentPhase}`);
+      this.processAutoTribute();
+      this.broadcastGameState();
+  }
+  
+  // Freeze the game (bot turns, turn timer) or pick up where it stopped
+  setPaused(paused: boolean) {
+      if (this.paused === paused) return;
+      this.paused = paused;
+      console.log(`[Game] ${paused ? 'Paused' : 'Resumed'} in room ${this.roomId}, phase ${this.currentPhase}`);
+      
+      if (paused) {
+          // The current player keeps the time they had left
+          this.frozenTurnTime = this.turnDeadline !== null ? Math.max(0, this.turnDeadline - this.clock.now()) : null;
+          this.clearAllTimeouts();
+          this.turnTimer = null;
+          this.turnTimerKey = null;
+          this.turnDeadline = null;
+          this.broadcastGameState();
+      } else {
+          this.resume();
+      }
+  }
+  
+  // Whether a player action can be taken now; a paused game tells the player why not
+  private accepts(seatIndex: number, action: PhaseAction): boolean {
+      if (this.paused) {
+          this.emitError(seatIndex, '对局已暂停');
+          return false;
+      }
+      return this.phases.allows(action);
+  }
+  
   rebindPlayer(p: Player) {
       if (!p.isBot && p.socket) {
           // Remove old listeners? Socket is new, so no need to remove old ones from new socket.
@@ -92,6 +248,23 @@ export class Game {
       }
   }
   
+  isBotDriven(seatIndex: number): boolean {
+      return !!this.players[seatIndex]?.isBot || this.autoPlay[seatIndex];
+  }
+  
+  // Hand a human seat to the bot (托管) or give it back
+  setAutoPlay(seatIndex: number, enabled: boolean) {
+      if (this.players[seatIndex]?.isBot || this.autoPlay[seatIndex] === enabled) return;
+      this.autoPlay[seatIndex] = enabled;
+      console.log(`[Game] Seat ${seatIndex} auto-play ${enabled ? 'on' : 'off'}`);
+      this.onChange?.();
+      
+      if (enabled) {
+          this.processAutoTribute();
+      }
+      this.broadcastGameState();
+  }
+  
   bindPlayerListeners(p: Player) {
       if (!p.socket) return;
       const s = p.socket;
@@ -108,15 +281,16 @@ export class Game {
       s.on('returnTribute', (cards: Card[]) => this.handleReturnTribute(p.seatIndex, cards));
       s.on('useSkill', (data: { skillId: string, targetSeat?: number }) => 
           this.handleUseSkill(p.seatIndex, data.skillId, data.targetSeat));
+      s.on('toggleAutoPlay', () => this.setAutoPlay(p.seatIndex, !this.autoPlay[p.seatIndex]));
   }
   
   // Lifecycle management methods
-  private registerTimeout(timeout: NodeJS.Timeout) {
+  private registerTimeout(timeout: TimerHandle) {
       this.pendingTimeouts.push(timeout);
   }
   
   private clearAllTimeouts() {
-      this.pendingTimeouts.forEach(t => clearTimeout(t));
+      this.pendingTimeouts.forEach(t => this.clock.clearTimeout(t));
       this.pendingTimeouts = [];
   }
   
@@ -133,6 +307,7 @@ export class Game {
               p.socket.removeAllListeners('tribute');
               p.socket.removeAllListeners('returnTribute');
               p.socket.removeAllListeners('useSkill');
+              p.socket.removeAllListeners('toggleAutoPlay');
           }
       });
   }
@@ -141,7 +316,7 @@ export class Game {
   private addHistoryEntry(type: HistoryEventType, message: string, playerIndex?: number, details?: any) {
       const entry: HistoryEntry = {
           id: `history-${this.historyIdCounter++}`,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           type,
           playerIndex,
           playerName: playerIndex !== undefined ? this.players[playerIndex]?.name : undefined,
@@ -150,8 +325,47 @@ export class Game {
       };
       this.history.push(entry);
       
+      // Every player action logs exactly one entry after the hands change
+      if (Game.REPLAY_ACTIONS.includes(type)) {
+          this.recordReplayAction(entry);
+      }
+      
       // Broadcast to all players
-      this.io.to(this.roomId).emit('historyUpdate', entry);
+      this.transport.broadcast('historyUpdate', entry);
+      this.onChange?.();
+  }
+  
+  private startReplay() {
+      this.replayHands = this.hands.map(h => [...h]);
+      this.replay = {
+          version: REPLAY_VERSION,
+          roomId: this.roomId,
+          round: this.currentRound,
+          seed: this.seed,
+          level: this.level,
+          teamLevels: { ...this.teamLevels },
+          activeTeam: this.activeTeam,
+          gameMode: this.gameMode,
+          ruleSetId: this.ruleSet.id,
+          players: this.players.map(p => ({ name: p.name, seatIndex: p.seatIndex, isBot: !!p.isBot })),
+          initialHands: this.hands.map(h => [...h]),
+          actions: [],
+          winners: [],
+          startedAt: this.clock.now()
+      };
+  }
+  
+  private recordReplayAction(entry: HistoryEntry) {
+      if (!this.replay) return;
+      this.replay.actions.push({
+          type: entry.type,
+          playerIndex: entry.playerIndex,
+          message: entry.message,
+          details: entry.details,
+          ...diffHands(this.replayHands, this.hands),
+          stateHash: hashHands(this.hands)
+      });
+      this.replayHands = this.hands.map(h => [...h]);
   }
   
   private getCardDescription(cards: Card[]): string {
@@ -167,12 +381,15 @@ export class Game {
       return `${cards.length}张牌`;
   }
 
-  // Called by Room when restarting
+  // Next game on this same instance (standalone play without a Match)
   resetAndStart() {
       // Save winners
       if (this.winners.length === 4) {
           this.prevWinners = [...this.winners];
-          this.handleLevelUp();
+          const outcome = applyGameResult(this, this.winners, this.ruleSet);
+          this.teamLevels = outcome.teamLevels;
+          this.activeTeam = outcome.activeTeam;
+          this.aAttempts = outcome.aAttempts;
       }
       this.winners = [];
       this.tributeState = { pendingTributes: [], pendingReturns: [] };
@@ -181,13 +398,12 @@ export class Game {
   }
 
   start() {
-    this.currentPhase = GamePhase.Dealing;
+    this.rng = createRng(this.seed);
+    this.generatedCardCount = 0;
     
-    // First time start logic
+    // First time start logic; levels and banker are set by Match (or resetAndStart)
     if (this.prevWinners.length === 0 && this.winners.length === 0) {
         // Fresh game
-        this.activeTeam = 0;
-        this.teamLevels = { 0: 2, 1: 2 };
         this.currentRound = 1;
         this.history = []; // Clear history for new match
         this.historyIdCounter = 0;
@@ -198,17 +414,18 @@ export class Game {
     // Use Active Team Level
     this.level = this.teamLevels[this.activeTeam];
     
-    // Add history entry for game start
-    const teamName = this.activeTeam === 0 ? 'Team 0 (Seat 0, 2)' : 'Team 1 (Seat 1, 3)';
+    // The seed rebuilds every hand, so it stays on the server until the replay is shared
+    console.log(`[Game] Round ${this.currentRound} in room ${this.roomId}, seed ${this.seed}`);
     this.addHistoryEntry(
         HistoryEventType.GameStart,
-        `第${this.currentRound}局开始 - 当前等级: ${this.level} - 庄家: ${teamName}`,
+        `第${this.currentRound}局开始 - 当前等级: ${this.level} - 庄家: ${teamName(this.activeTeam)}`,
         undefined,
         { level: this.level, activeTeam: this.activeTeam, round: this.currentRound }
     );
+    this.phases.transition(GamePhase.Dealing);
 
     let deck = createDeck();
-    deck = shuffleDeck(deck);
+    deck = shuffleDeck(deck, this.rng);
     
     this.hands = [[], [], [], []];
     for (let i = 0; i < 108; i++) {
@@ -219,6 +436,8 @@ export class Game {
     this.hands = this.hands.map(h => updateCardProperties(h, this.level));
     this.hands = this.hands.map(h => sortCards(h, this.level));
     
+    this.startReplay();
+    
     // Reset skip flags
     this.skipNextTurn = [false, false, false, false];
     
@@ -234,277 +453,213 @@ export class Game {
          this.initTributePhase();
     } else {
          this.currentTurn = 0;
-         this.currentPhase = GamePhase.Playing;
-         this.passCount = 0;
-         this.lastHand = null;
+         this.phases.transition(GamePhase.Playing);
     }
     
     this.broadcastGameState();
   }
   
-  handleLevelUp() {
-      if (this.prevWinners.length === 0) return;
-      
-      const p1 = this.prevWinners[0];
-      const p2 = this.prevWinners[1];
-      const isSameTeam = (a: number, b: number) => (a % 2) === (b % 2);
-      
-      // Determine Winning Team (First Winner's Team)
-      const winningTeam = p1 % 2;
-      
-      // Determine Step
-      let step = 0;
-      if (isSameTeam(p1, p2)) step = 3; // Double Up (1st, 2nd same team) -> +3
-      else if (isSameTeam(p1, this.prevWinners[2])) step = 2; // 1st, 3rd -> +2 
-      else step = 1; 
-
-      if (winningTeam !== this.activeTeam) {
-          // Switch Banker
-          this.activeTeam = winningTeam;
-          this.teamLevels[this.activeTeam] += step; 
-      } else {
-          // Keep Banker
-          this.teamLevels[this.activeTeam] += step;
-      }
-      
-      if (this.teamLevels[this.activeTeam] > 14) this.teamLevels[this.activeTeam] = 14; 
-  }
-  
   initTributePhase() {
       if (this.prevWinners.length < 4) {
           // First game or error, no tribute
-          this.currentPhase = GamePhase.Playing;
           this.currentTurn = this.activeTeam; // Banker starts first game? Or Random? Usually Banker.
           // In GuanDan, first game usually starts from Host or Random. 
           // Let's assume ActiveTeam's P1 starts.
+          this.phases.transition(GamePhase.Playing);
           return;
       }
 
       const p1 = this.prevWinners[0];
-      const p2 = this.prevWinners[1];
-      const p3 = this.prevWinners[2];
-      const p4 = this.prevWinners[3];
-      const isSameTeam = (a: number, b: number) => (a % 2) === (b % 2);
-
+      // Double: 4->1, 3->2; single: 4->1; tie: as single, or nothing under house rules
+      const tributes = tributeOrder(this.prevWinners, this.ruleSet);
       this.tributeState = { pendingTributes: [], pendingReturns: [] };
       
-      // Anti-Tribute Logic (Resistance)
-      // Check for 2 Big Jokers in losing team's hands
-      // Losing Team:
-      let losingTeam: number[] = [];
-      let isDouble = false;
-      
-      if (isSameTeam(p1, p2)) {
-          // Double Win
-          isDouble = true;
-          losingTeam = [p3, p4];
-      } else {
-          // Single Win (1,3 or 1,4)
-          losingTeam = [p4]; // Only last place pays in Single Win? 
-          // Rule: Single Win (1,3 same team) -> 4 pays 1.
-          // Rule: Tie (1,4 same team) -> 4 pays 1? Or no tribute?
-          // Standard: 
-          // Double Win: 4->1, 3->2.
-          // Single Win (1,3): 4->1.
-          // Tie (1,4): No tribute.
-          if (isSameTeam(p1, p4)) {
-             // Tie (1,4 same team) -> No tribute
-             this.currentPhase = GamePhase.Playing;
-             this.currentTurn = p1;
-             return;
-          }
-      }
-      
-      // Count Big Jokers in Losing Team Hands
-      let bigJokerCount = 0;
-      losingTeam.forEach(seat => {
-          bigJokerCount += this.hands[seat].filter(c => c.rank === 16).length; // Rank.BigJoker = 16
-      });
-      
-      if (bigJokerCount === 2) {
-          // Resistance Successful!
-          // No Tribute
-          // Who starts? P1 (Winner) starts.
-          this.currentPhase = GamePhase.Playing;
+      if (tributes.length === 0) {
           this.currentTurn = p1;
-          // Notify? Ideally send message.
-          this.io.to(this.roomId).emit('error', '抗贡成功！双大王在手，免除进贡！');
+          this.phases.transition(GamePhase.Playing);
           return;
       }
       
-      // Tribute Rules
-      if (isDouble) {
-          // Double: 4->1, 3->2
-          this.tributeState.pendingTributes.push({ from: p4, to: p1 }); 
-          this.tributeState.pendingTributes.push({ from: p3, to: p2 }); 
-      } else {
-          // Single: 4->1
-          this.tributeState.pendingTributes.push({ from: p4, to: p1 });
+      // 抗贡 (Resistance): a single tribute is resisted when the last place
+      // holds both big jokers; a double tribute when the two payers hold both
+      // between them (one each counts too)
+      const payers = tributes.map(t => t.from);
+      const bigJokers = payers.map(seat => this.hands[seat].filter(c => c.rank === Rank.BigJoker).length);
+      if (bigJokers.reduce((sum, n) => sum + n, 0) >= 2) {
+          this.resistTribute(payers.filter((_, i) => bigJokers[i] > 0), p1);
+          return;
       }
       
-      if (this.tributeState.pendingTributes.length > 0) {
-          this.currentPhase = GamePhase.Tribute;
-          this.processAutoTribute();
-      } else {
-          this.currentPhase = GamePhase.Playing;
-          this.currentTurn = p1; 
-      }
+      this.tributeState.pendingTributes = tributes;
+      // Bots pay on entry
+      this.phases.transition(GamePhase.Tribute);
   }
   
-  processAutoTribute() {
-      this.tributeState.pendingTributes.forEach(t => {
-           const player = this.players[t.from];
-           if (player.isBot) {
-               const hand = this.hands[t.from];
-               const largest = getLargestCard(hand, this.level);
-               t.card = largest;
-               this.hands[t.from] = this.hands[t.from].filter(c => c.id !== largest.id);
-               this.hands[t.to].push(largest);
-               this.hands[t.to] = sortCards(this.hands[t.to], this.level);
-           }
-      });
+  // Skip the tribute phases after a successful 抗贡; the first winner leads
+  private resistTribute(holders: number[], startPlayer: number) {
+      const names = holders.map(seat => this.players[seat].name).join('、');
+      const message = `${names} 持双大王抗贡成功，免除进贡，${this.players[startPlayer].name} 先出牌`;
+      this.addHistoryEntry(
+          HistoryEventType.Tribute,
+          message,
+          holders[0],
+          { antiTribute: true, seats: holders, startPlayer }
+      );
+      this.transport.broadcast('antiTribute', { seats: holders, startPlayer, message });
       
-      const allDone = this.tributeState.pendingTributes.every(t => t.card);
-      if (allDone) {
-          this.currentPhase = GamePhase.ReturnTribute;
-          this.tributeState.pendingReturns = this.tributeState.pendingTributes.map(t => ({
-              from: t.to,
-              to: t.from
-          }));
-          this.tributeState.pendingTributes = []; 
-          
-           this.tributeState.pendingReturns.forEach(r => {
-               const player = this.players[r.from];
-               if (player.isBot) {
-                   const hand = this.hands[r.from];
-                   const smallest = hand[hand.length - 1]; 
-                   r.card = smallest;
-                   this.hands[r.from] = this.hands[r.from].filter(c => c.id !== smallest.id);
-                   this.hands[r.to].push(smallest);
-                   this.hands[r.to] = sortCards(this.hands[r.to], this.level);
+      this.currentTurn = startPlayer;
+      this.phases.transition(GamePhase.Playing);
+  }
+  
+  // Let the bot pay or return for every bot-driven seat still owing a card
+  processAutoTribute() {
+      if (this.paused) return;
+      if (this.currentPhase === GamePhase.Tribute) {
+          this.tributeState.pendingTributes.forEach(t => {
+               const player = this.players[t.from];
+               if (this.isBotDriven(t.from) && !t.card) {
+                   const largest = new Bot(this.hands[t.from], this.level, this.ruleSet).chooseTributeCard();
+                   t.card = largest;
+                   this.hands[t.from] = this.hands[t.from].filter(c => c.id !== largest.id);
+                   this.hands[t.to].push(largest);
+                   this.hands[t.to] = sortCards(this.hands[t.to], this.level);
+                   this.addHistoryEntry(
+                       HistoryEventType.Tribute,
+                       `${player.name} 向 ${this.players[t.to].name} 进贡: ${this.getCardDescription([largest])}`,
+                       t.from,
+                       { card: largest, to: t.to }
+                   );
                }
-           });
-           
-           this.checkReturnDone();
+          });
+          
+          const allDone = this.tributeState.pendingTributes.every(t => t.card);
+          if (allDone) {
+              this.beginReturnTribute();
+          }
+      } else if (this.currentPhase === GamePhase.ReturnTribute) {
+          this.tributeState.pendingReturns.forEach(r => {
+              const player = this.players[r.from];
+              if (this.isBotDriven(r.from) && !r.card) {
+                  const smallest = new Bot(this.hands[r.from], this.level, this.ruleSet).chooseReturnCard();
+                  r.card = smallest;
+                  this.hands[r.from] = this.hands[r.from].filter(c => c.id !== smallest.id);
+                  this.hands[r.to].push(smallest);
+                  this.hands[r.to] = sortCards(this.hands[r.to], this.level);
+                  this.addHistoryEntry(
+                      HistoryEventType.ReturnTribute,
+                      `${player.name} 向 ${this.players[r.to].name} 还贡: ${this.getCardDescription([smallest])}`,
+                      r.from,
+                      { card: smallest, to: r.to }
+                  );
+              }
+          });
+          
+          this.checkReturnDone();
       }
   }
+  
+  // All tributes are paid: decide who leads afterwards and collect the returns
+  private beginReturnTribute() {
+      // The payer of the largest tribute leads (stored for checkReturnDone)
+      this.tributeState.nextStartPlayer = tributeLeader(
+          this.tributeState.pendingTributes.map(t => ({ from: t.from, card: t.card! })),
+          this.level
+      );
+
+      this.tributeState.pendingReturns = this.tributeState.pendingTributes.map(t => ({
+          from: t.to,
+          to: t.from
+      }));
+      this.tributeState.pendingTributes = [];
+      
+      // Bots return on entry
+      this.phases.transition(GamePhase.ReturnTribute);
+  }
 
   handleTribute(seatIndex: number, cards: Card[]) {
-      if (this.currentPhase !== GamePhase.Tribute) return;
-      if (cards.length !== 1) return;
+      if (!this.accepts(seatIndex, 'tribute')) return;
       
       const tribute = this.tributeState.pendingTributes.find(t => t.from === seatIndex && !t.card);
       if (!tribute) return;
       
-      // Verify largest
-      const hand = this.hands[seatIndex];
-      const largest = getLargestCard(hand, this.level);
-      const valPlay = getLogicValue(cards[0].rank, this.level);
-      const valMax = getLogicValue(largest.rank, this.level);
+      const card = this.resolveSingleCard(seatIndex, cards);
+      if (!card) return;
       
-      if (valPlay < valMax) {
-           this.emitError(seatIndex, 'Must pay the largest card');
+      // Largest card, never the heart level card
+      if (!isValidTributeCard(card, this.hands[seatIndex], this.level)) {
+           this.emitError(seatIndex, 'Must pay the largest card (the heart level card cannot be paid)', PlayErrorCode.InvalidTribute);
            return;
       }
       
-      tribute.card = cards[0];
-      this.hands[seatIndex] = this.hands[seatIndex].filter(c => c.id !== cards[0].id);
-      this.hands[tribute.to].push(cards[0]);
+      tribute.card = card;
+      this.hands[seatIndex] = this.hands[seatIndex].filter(c => c.id !== card.id);
+      this.hands[tribute.to].push(card);
       this.hands[tribute.to] = sortCards(this.hands[tribute.to], this.level);
       
       // Add history entry for tribute
       this.addHistoryEntry(
           HistoryEventType.Tribute,
-          `${this.players[seatIndex].name} 向 ${this.players[tribute.to].name} 进贡: ${this.getCardDescription([cards[0]])}`,
+          `${this.players[seatIndex].name} 向 ${this.players[tribute.to].name} 进贡: ${this.getCardDescription([card])}`,
           seatIndex,
-          { card: cards[0], to: tribute.to }
+          { card, to: tribute.to }
       );
       
       const allDone = this.tributeState.pendingTributes.every(t => t.card);
       if (allDone) {
-          // Determine who goes first in next round (Playing Phase)
-          // Rule: "The one who paid the largest tribute goes first"
-          // If equal? (e.g. both paid Heart 5?) -> Usually the one who paid to First Place? Or downstream order?
-          // Rule: If single tribute, payer goes first.
-          // If double tribute: Compare tribute cards. Largest payer goes first.
-          // If equal max tribute cards? Payer to P1 goes first? Or P4 (Last place) goes first?
-          // Common Rule: Payer of largest card. If equal, Last Place (p4) goes first.
-          
-          let nextTurn = -1;
-          
-          // Logic for next turn needs to be stored for after Return Tribute
-          // Actually, currentTurn updates when entering Playing phase.
-          // We can calculate it now and store it? 
-          // Wait, Return Tribute phase happens next. We shouldn't set currentTurn for Playing yet.
-          // But we need to know who starts.
-          
-          // Compare tribute cards
-          let maxVal = -1;
-          let maxPayer = -1;
-          
-          this.tributeState.pendingTributes.forEach(t => {
-              if (t.card) {
-                  const val = getLogicValue(t.card.rank, this.level);
-                  if (val > maxVal) {
-                      maxVal = val;
-                      maxPayer = t.from;
-                  } else if (val === maxVal) {
-                      // Tie breaker: Usually Last Place (p4) has priority if ties with 3rd place?
-                      // Or 3rd place?
-                      // Let's stick to: If tie, the one who paid to First Winner (P1) gets priority? 
-                      // Actually rules say: "If tribute cards are equal, the tributer to the first winner goes first" (Some rules)
-                      // OR "Last place goes first"
-                      // Let's assume maxPayer updates only if STRICTLY greater, so first one found keeps it.
-                      // Order is p4->p1, p3->p2. So p4 is checked first.
-                      // If p3 pays same value, maxVal is same, maxPayer stays p4.
-                      // So p4 (Last place) wins tie.
-                  }
-              }
-          });
-          
-          // Store this for later use in checkReturnDone
-          this.tributeState.nextStartPlayer = maxPayer;
-
-          this.currentPhase = GamePhase.ReturnTribute;
-          this.tributeState.pendingReturns = this.tributeState.pendingTributes.map(t => ({
-              from: t.to,
-              to: t.from
-          }));
-          this.tributeState.pendingTributes = [];
-          this.broadcastGameState();
-      } else {
-          this.broadcastGameState();
+          this.beginReturnTribute();
       }
+      this.broadcastGameState();
   }
 
   handleReturnTribute(seatIndex: number, cards: Card[]) {
-      if (this.currentPhase !== GamePhase.ReturnTribute) return;
-      if (cards.length !== 1) return;
+      if (!this.accepts(seatIndex, 'returnTribute')) return;
       
       const ret = this.tributeState.pendingReturns.find(r => r.from === seatIndex && !r.card);
       if (!ret) return;
       
-      ret.card = cards[0];
-      this.hands[seatIndex] = this.hands[seatIndex].filter(c => c.id !== cards[0].id);
-      this.hands[ret.to].push(cards[0]);
+      const card = this.resolveSingleCard(seatIndex, cards);
+      if (!card) return;
+      
+      // 10 or lower and not a level card (unless the hand has no such card)
+      if (!getReturnTributeCandidates(this.hands[seatIndex], this.level).some(c => c.id === card.id)) {
+           this.emitError(seatIndex, 'Return card must be 10 or lower and not a level card', PlayErrorCode.InvalidReturnTribute);
+           return;
+      }
+      
+      ret.card = card;
+      this.hands[seatIndex] = this.hands[seatIndex].filter(c => c.id !== card.id);
+      this.hands[ret.to].push(card);
       this.hands[ret.to] = sortCards(this.hands[ret.to], this.level);
       
       // Add history entry for return tribute
       this.addHistoryEntry(
           HistoryEventType.ReturnTribute,
-          `${this.players[seatIndex].name} 向 ${this.players[ret.to].name} 还贡: ${this.getCardDescription([cards[0]])}`,
+          `${this.players[seatIndex].name} 向 ${this.players[ret.to].name} 还贡: ${this.getCardDescription([card])}`,
           seatIndex,
-          { card: cards[0], to: ret.to }
+          { card, to: ret.to }
       );
       
       this.checkReturnDone();
       this.broadcastGameState();
   }
   
+  // The one card a tribute or return names, taken from the server-side hand
+  private resolveSingleCard(seatIndex: number, cards: Card[]): Card | null {
+      if (!cards || cards.length !== 1) {
+          this.emitError(seatIndex, 'Select exactly one card');
+          return null;
+      }
+      const card = this.hands[seatIndex].find(c => c.id === cards[0].id);
+      if (!card) {
+          this.emitError(seatIndex, 'You do not have this card', PlayErrorCode.CardsNotInHand);
+          return null;
+      }
+      return card;
+  }
+  
   checkReturnDone() {
       const allDone = this.tributeState.pendingReturns.every(r => r.card);
       if (allDone) {
-          this.currentPhase = GamePhase.Playing;
           // Set start player based on tribute result
           if (this.tributeState.nextStartPlayer !== undefined) {
               this.currentTurn = this.tributeState.nextStartPlayer;
@@ -512,30 +667,39 @@ export class Game {
               // Fallback (Shouldn't happen if tribute occurred)
               this.currentTurn = this.prevWinners[0];
           }
-          this.tributeState = { pendingTributes: [], pendingReturns: [] }; // Clear
+          // Leaving ReturnTribute clears the tribute state
+          this.phases.transition(GamePhase.Playing);
           this.broadcastGameState();
       }
   }
 
   handlePlayHand(seatIndex: number, cards: Card[], providedHandType?: Hand) {
-      if (this.currentPhase !== GamePhase.Playing) return;
+      if (!this.accepts(seatIndex, 'play')) return;
       if (this.currentTurn !== seatIndex) return;
       
+      // Resolve cards against the server-side hand (never trust client card flags)
+      const playerHand = this.hands[seatIndex];
+      const uniqueIds = new Set(cards.map(c => c.id));
+      const ownedCards = playerHand.filter(c => uniqueIds.has(c.id));
+      if (ownedCards.length !== cards.length || uniqueIds.size !== cards.length) {
+           this.emitError(seatIndex, 'You do not have these cards', PlayErrorCode.CardsNotInHand);
+           return;
+      }
+      cards = ownedCards;
+      
       // Use provided hand type if available, otherwise infer it
       let hand: Hand | null;
       if (providedHandType) {
-          // Validate that the provided hand type is actually valid for these cards
-          const inferredHand = getHandType(cards, this.level);
-          if (!inferredHand) {
-              this.emitError(seatIndex, 'Invalid hand');
+          // The provided interpretation must be one the rules engine allows for these cards
+          hand = this.matchInterpretation(cards, providedHandType);
+          if (!hand) {
+              this.emitError(seatIndex, 'Invalid hand interpretation', PlayErrorCode.InvalidInterpretation);
               return;
           }
-          // Use the provided interpretation
-          hand = providedHandType;
       } else {
           hand = getHandType(cards, this.level);
           if (!hand) {
-              this.emitError(seatIndex, 'Invalid hand');
+              this.emitError(seatIndex, 'Invalid hand', PlayErrorCode.InvalidHand);
               return;
           }
       }
@@ -545,28 +709,21 @@ export class Game {
 
       if (this.lastHand && this.lastHand.playerIndex !== seatIndex) {
           // Compare
-          const result = compareHands(hand, this.lastHand.hand);
+          const result = compareHands(hand, this.lastHand.hand, this.ruleSet);
           if (result <= 0) {
                console.log(`Compare failed: ${result}`);
-               this.emitError(seatIndex, 'Hand not big enough');
+               this.emitError(seatIndex, 'Hand not big enough', PlayErrorCode.NotBigEnough);
                return;
           }
       }
       
-      const playerHand = this.hands[seatIndex];
-      // Check if cards exist in hand (by ID)
-      const validCards = cards.every(c => playerHand.some(ph => ph.id === c.id));
-      if (!validCards) {
-           this.emitError(seatIndex, 'You do not have these cards');
-           return;
-      }
-
       // Remove cards
       const newHand = playerHand.filter(c => !cards.some(played => played.id === c.id));
       this.hands[seatIndex] = newHand;
       
       this.lastHand = { playerIndex: seatIndex, hand };
       this.passCount = 0;
+      this.moveCount++;
       
       // Reset round actions when someone plays (new round starts)
       this.roundActions = {};
@@ -634,6 +791,20 @@ export class Game {
       this.broadcastGameState();
   }
   
+  // Find the legal interpretation of `cards` that matches a client-provided hand
+  private matchInterpretation(cards: Card[], provided: Hand): Hand | null {
+      if (!provided.cards || provided.cards.length !== cards.length) return null;
+      const providedIds = new Set(provided.cards.map(c => c.id));
+      if (!cards.every(c => providedIds.has(c.id))) return null;
+      
+      const match = getAllPossibleHandTypes(cards, this.level).find(h =>
+          h.type === provided.type &&
+          h.value === provided.value &&
+          (h.bombCount || 0) === (provided.bombCount || 0)
+      );
+      return match || null;
+  }
+  
   // Helper to end current round and find next start player
   endRoundAndFindNext(winner: number) {
       console.log(`[endRound] Round ended. Winner: ${winner}`);
@@ -670,15 +841,16 @@ export class Game {
   }
 
   handlePass(seatIndex: number) {
-      if (this.currentPhase !== GamePhase.Playing) return;
+      if (!this.accepts(seatIndex, 'pass')) return;
       if (this.currentTurn !== seatIndex) return;
       
       if (!this.lastHand || this.lastHand.playerIndex === seatIndex) {
-          this.emitError(seatIndex, 'Cannot pass on free turn');
+          this.emitError(seatIndex, 'Cannot pass on free turn', PlayErrorCode.CannotPass);
           return;
       }
       
       this.roundActions[seatIndex] = { type: 'pass' };
+      this.moveCount++;
       console.log(`[handlePass] Player ${seatIndex} passed.`);
       
       // Add history entry
@@ -717,7 +889,7 @@ export class Game {
           if (isSkipped) {
               console.log(`[advanceTurn] Skipping seat ${next} (乐不思蜀 effect)`);
               this.skipNextTurn[next] = false;
-              this.io.to(this.roomId).emit('error', `${this.players[next].name} 被【乐不思蜀】跳过了回合！`);
+              this.transport.broadcast('error', `${this.players[next].name} 被【乐不思蜀】跳过了回合！`);
               this.roundActions[next] = { type: 'pass' }; // Visually show pass
               
               // After skipping, check round end condition again for the NEXT player
@@ -750,7 +922,7 @@ export class Game {
       
       // Shuffle pool
       for (let i = pool.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
+          const j = randomInt(this.rng, i + 1);
           [pool[i], pool[j]] = [pool[j], pool[i]];
       }
       
@@ -770,20 +942,20 @@ export class Game {
                      Rank.Eight, Rank.Nine, Rank.Ten, Rank.Jack, Rank.Queen, Rank.King, Rank.Ace];
       
       // Small chance for joker
-      if (Math.random() < 0.05) {
-          const isSmall = Math.random() < 0.5;
+      if (this.rng() < 0.05) {
+          const isSmall = this.rng() < 0.5;
           return {
-              id: `gen-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+              id: `gen-${this.currentRound}-${++this.generatedCardCount}`,
               suit: Suit.Joker,
               rank: isSmall ? Rank.SmallJoker : Rank.BigJoker
           };
       }
       
-      const suit = suits[Math.floor(Math.random() * suits.length)];
-      const rank = ranks[Math.floor(Math.random() * ranks.length)];
+      const suit = suits[randomInt(this.rng, suits.length)];
+      const rank = ranks[randomInt(this.rng, ranks.length)];
       
       const card: Card = {
-          id: `gen-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          id: `gen-${this.currentRound}-${++this.generatedCardCount}`,
           suit,
           rank
       };
@@ -816,8 +988,8 @@ export class Game {
           this.emitError(seatIndex, '当前不是技能模式');
           return;
       }
-      if (this.currentPhase !== GamePhase.Playing) {
-          this.emitError(seatIndex, '只能在出牌阶段使用技能');
+      if (!this.accepts(seatIndex, 'useSkill')) {
+          if (!this.paused) this.emitError(seatIndex, '只能在出牌阶段使用技能');
           return;
       }
       if (this.currentTurn !== seatIndex) {
@@ -906,7 +1078,7 @@ export class Game {
               this.hands[user] = sortCards(this.hands[user], this.level);
               trackNewCard(user, card1.id);
               trackNewCard(user, card2.id);
-              this.io.to(this.roomId).emit('error', `${playerName} 使用了【无中生有】，获得2张牌！`);
+              this.transport.broadcast('error', `${playerName} 使用了【无中生有】，获得2张牌！`);
               return true;
           }
           
@@ -914,12 +1086,12 @@ export class Game {
               // 顺手牵羊: Steal 1 random card from target
               if (target === undefined || this.hands[target].length === 0) return false;
               const targetHand = this.hands[target];
-              const randIdx = Math.floor(Math.random() * targetHand.length);
+              const randIdx = randomInt(this.rng, targetHand.length);
               const stolenCard = targetHand.splice(randIdx, 1)[0];
               this.hands[user].push(stolenCard);
               this.hands[user] = sortCards(this.hands[user], this.level);
               trackNewCard(user, stolenCard.id);
-              this.io.to(this.roomId).emit('error', `${playerName} 对 ${targetName} 使用了【顺手牵羊】！`);
+              this.transport.broadcast('error', `${playerName} 对 ${targetName} 使用了【顺手牵羊】！`);
               return true;
           }
           
@@ -927,9 +1099,9 @@ export class Game {
               // 过河拆桥: Target discards 1 random card
               if (target === undefined || this.hands[target].length === 0) return false;
               const targetHand = this.hands[target];
-              const randIdx = Math.floor(Math.random() * targetHand.length);
+              const randIdx = randomInt(this.rng, targetHand.length);
               targetHand.splice(randIdx, 1);
-              this.io.to(this.roomId).emit('error', `${playerName} 对 ${targetName} 使用了【过河拆桥】！`);
+              this.transport.broadcast('error', `${playerName} 对 ${targetName} 使用了【过河拆桥】！`);
               return true;
           }
           
@@ -937,7 +1109,7 @@ export class Game {
               // 乐不思蜀: Target skips next turn
               if (target === undefined) return false;
               this.skipNextTurn[target] = true;
-              this.io.to(this.roomId).emit('error', `${playerName} 对 ${targetName} 使用了【乐不思蜀】！下回合将被跳过！`);
+              this.transport.broadcast('error', `${playerName} 对 ${targetName} 使用了【乐不思蜀】！下回合将被跳过！`);
               return true;
           }
           
@@ -953,7 +1125,7 @@ export class Game {
                   this.hands[seat] = sortCards(this.hands[seat], this.level);
                   trackNewCard(seat, card.id);
               });
-              this.io.to(this.roomId).emit('error', `${playerName} 使用了【五谷丰登】，每人获得1张牌！`);
+              this.transport.broadcast('error', `${playerName} 使用了【五谷丰登】，每人获得1张牌！`);
               return true;
           }
           
@@ -965,8 +1137,9 @@ export class Game {
   // ==================== END SKILL CARD METHODS ====================
   
   endGame() {
+      if (this.phases.is(GamePhase.Score)) return;
       console.log(`[endGame] Game ended. Winners: ${this.winners.join(', ')}`);
-      this.currentPhase = GamePhase.Score;
+      this.phases.transition(GamePhase.Score);
       
       // Add history entry for game end
       const winnerNames = this.winners.map(w => this.players[w].name).join(', ');
@@ -984,6 +1157,10 @@ export class Game {
           resultType = `Team ${this.winners[0] % 2} 保级`;
       }
       
+      if (this.replay) {
+          this.replay.winners = [...this.winners];
+      }
+      
       this.addHistoryEntry(
           HistoryEventType.GameEnd,
           `游戏结束！${resultType} - 排名: ${winnerNames}`,
@@ -995,7 +1172,7 @@ export class Game {
       this.broadcastGameState();
       
       // Then send gameOver event
-      this.io.to(this.roomId).emit('gameOver', { winners: this.winners });
+      this.transport.broadcast('gameOver', { winners: this.winners });
       
       // Call onGameEnd callback if set (used by Match)
       if (this.onGameEnd) {
@@ -1003,42 +1180,68 @@ export class Game {
       }
   }
 
-  emitError(seatIndex: number, msg: string) {
+  // Level changes decided by Match once this game is over; shown in this game's history
+  logLevelUp(lines: string[], outcome: LevelOutcome) {
+      lines.forEach(line => this.addHistoryEntry(HistoryEventType.LevelUp, line, undefined, {
+          winningTeam: outcome.winningTeam,
+          pattern: outcome.pattern,
+          teamLevels: outcome.teamLevels,
+          activeTeam: outcome.activeTeam,
+          aAttempts: outcome.aAttempts,
+          matchWinner: outcome.matchWinner
+      }));
+      this.broadcastGameState();
+  }
+
+  emitError(seatIndex: number, msg: string, code?: PlayErrorCode) {
       const p = this.players[seatIndex];
       if (!p.isBot && p.socket) {
-          p.socket.emit('error', msg);
+          p.socket.emit('error', msg, code);
       }
   }
 
+  // Game state as seen from `seat`; hands outside `revealed` are sent as counts
+  buildGameState(seat: number, revealed: number[] = [seat]) {
+      return {
+          phase: this.currentPhase,
+          level: this.level,
+          currentTurn: this.currentTurn,
+          hands: this.hands.map((h, i) => revealed.includes(i) ? h : h.length),
+          lastHand: this.lastHand,
+          roundActions: this.roundActions,
+          winners: this.winners,
+          tributeState: this.currentPhase === GamePhase.Tribute || this.currentPhase === GamePhase.ReturnTribute ? this.tributeState : undefined,
+          teamLevels: this.teamLevels,
+          activeTeam: this.activeTeam,
+          aAttempts: this.aAttempts,
+          // Skill mode data
+          gameMode: this.gameMode,
+          mySkillCards: this.skillCards[seat] || [],  // Only send player's own skill cards
+          skipNextTurn: this.skipNextTurn,
+          // New cards highlight
+          newCardIds: this.newCardIds[seat] || [],
+          // Game history
+          history: this.history,
+          currentRound: this.currentRound,
+          // Turn timer
+          turnDeadline: this.turnDeadline,
+          turnTimeLimit: this.turnTimeLimit,
+          serverTime: this.clock.now(),
+          // Seats under bot control (托管)
+          autoPlay: this.autoPlay
+      };
+  }
+
   broadcastGameState() {
+    if (!this.paused) this.updateTurnTimer();
     this.players.forEach((p, idx) => {
         if (!p.isBot && p.socket) {
             const myNewCardIds = this.newCardIds[idx] || [];
-            p.socket.emit('gameState', {
-                phase: this.currentPhase,
-                level: this.level,
-                currentTurn: this.currentTurn,
-                hands: this.hands.map((h, i) => i === idx ? h : h.length),
-                lastHand: this.lastHand,
-                roundActions: this.roundActions,
-                winners: this.winners,
-                tributeState: this.currentPhase === GamePhase.Tribute || this.currentPhase === GamePhase.ReturnTribute ? this.tributeState : undefined,
-                teamLevels: this.teamLevels,
-                activeTeam: this.activeTeam,
-                // Skill mode data
-                gameMode: this.gameMode,
-                mySkillCards: this.skillCards[idx],  // Only send player's own skill cards
-                skipNextTurn: this.skipNextTurn,
-                // New cards highlight
-                newCardIds: myNewCardIds,
-                // Game history
-                history: this.history,
-                currentRound: this.currentRound
-            });
+            p.socket.emit('gameState', this.buildGameState(idx));
             
             // Delay clearing newCardIds to give client time to display highlight
             if (myNewCardIds.length > 0) {
-                const timeout = setTimeout(() => {
+                const timeout = this.clock.setTimeout(() => {
                     if (this.isActive) {
                         this.newCardIds[idx] = [];
                     }
@@ -1048,16 +1251,21 @@ export class Game {
         }
     });
     
+    // Spectators (handled by the room)
+    this.onBroadcast?.();
+    
     // Don't globally clear newCardIds anymore
     // this.newCardIds = {};
     
     // Bot Turn Logic
     const currentPlayer = this.players[this.currentTurn];
-    if (currentPlayer && currentPlayer.isBot && this.currentPhase === GamePhase.Playing && this.winners.length < 3) {
+    if (this.paused) {
+        console.log(`[Turn] Game paused, waiting for the host to resume`);
+    } else if (currentPlayer && this.isBotDriven(this.currentTurn) && this.currentPhase === GamePhase.Playing && this.winners.length < 3) {
         // Capture the current seat to avoid race conditions
         const botSeat = this.currentTurn;
         console.log(`[Bot] Scheduling Bot ${botSeat} to play in 1.5s...`);
-        const timeout = setTimeout(() => {
+        const timeout = this.clock.setTimeout(() => {
             if (!this.isActive) {
                 console.log(`[Bot] Game no longer active, aborting bot turn for seat ${botSeat}`);
                 return;
@@ -1071,6 +1279,80 @@ export class Game {
     }
   }
   
+  // Who the clock is running for right now; null when nobody is waited on
+  private getTurnTimerKey(): string | null {
+      if (this.currentPhase === GamePhase.Tribute) {
+          return this.tributeState.pendingTributes.some(t => !t.card) ? 'Tribute' : null;
+      }
+      if (this.currentPhase === GamePhase.ReturnTribute) {
+          return this.tributeState.pendingReturns.some(r => !r.card) ? 'ReturnTribute' : null;
+      }
+      if (this.currentPhase === GamePhase.Playing && this.winners.length < 3) {
+          const player = this.players[this.currentTurn];
+          if (!player || this.isBotDriven(this.currentTurn)) return null;
+          return `Playing|${this.currentTurn}|${this.moveCount}`;
+      }
+      return null;
+  }
+  
+  // Restart the countdown whenever a different player (or phase) is waited on
+  private updateTurnTimer() {
+      const key = this.turnTimeLimit > 0 ? this.getTurnTimerKey() : null;
+      if (key === this.turnTimerKey) return;
+      this.turnTimerKey = key;
+      
+      if (this.turnTimer) {
+          this.clock.clearTimeout(this.turnTimer);
+          this.turnTimer = null;
+      }
+      this.turnDeadline = null;
+      const frozen = this.frozenTurnTime;
+      this.frozenTurnTime = null;
+      if (!key) return;
+      
+      const ms = frozen ?? this.turnTimeLimit * 1000;
+      this.turnDeadline = this.clock.now() + ms;
+      const timeout = this.clock.setTimeout(() => {
+          if (!this.isActive) return;
+          this.turnTimer = null;
+          this.handleTurnTimeout();
+      }, ms);
+      this.turnTimer = timeout;
+      this.registerTimeout(timeout);
+  }
+  
+  // Time is up: act for whoever is being waited on using the bot logic
+  handleTurnTimeout() {
+      console.log(`[Timer] Turn timed out. Phase: ${this.currentPhase}, turn: ${this.currentTurn}`);
+      
+      if (this.currentPhase === GamePhase.Tribute) {
+          this.tributeState.pendingTributes.filter(t => !t.card).forEach(t => {
+              const card = new Bot(this.hands[t.from], this.level, this.ruleSet).chooseTributeCard();
+              this.handleTribute(t.from, [card]);
+          });
+          return;
+      }
+      
+      if (this.currentPhase === GamePhase.ReturnTribute) {
+          this.tributeState.pendingReturns.filter(r => !r.card).forEach(r => {
+              const card = new Bot(this.hands[r.from], this.level, this.ruleSet).chooseReturnCard();
+              this.handleReturnTribute(r.from, [card]);
+          });
+          return;
+      }
+      
+      if (this.currentPhase !== GamePhase.Playing) return;
+      const seat = this.currentTurn;
+      
+      // Pass when allowed; on a free turn lead what the bot would lead
+      if (this.lastHand && this.lastHand.playerIndex !== seat) {
+          this.handlePass(seat);
+          return;
+      }
+      const move = new Bot(this.hands[seat], this.level, this.ruleSet).decideMove(null);
+      if (move) this.playBotMove(seat, move);
+  }
+  
   // Bot emoji/chat messages
   botEmojis = {
       play: ['😎', '✨', '💪', '🔥', '👍', '😏', '🎯', '⚡'],
@@ -1081,17 +1363,20 @@ export class Game {
   };
   
   botSendChat(seatIndex: number, category: 'play' | 'bomb' | 'win' | 'pass' | 'taunt') {
+      // Never chat in the name of a human whose seat the bot is covering
+      if (!this.players[seatIndex].isBot) return;
+      
       // 30% chance to send emoji
-      if (Math.random() > 0.3) return;
+      if (this.rng() > 0.3) return;
       
       const emojis = this.botEmojis[category];
-      const emoji = emojis[Math.floor(Math.random() * emojis.length)];
+      const emoji = emojis[randomInt(this.rng, emojis.length)];
       const botName = this.players[seatIndex].name;
       
-      this.io.to(this.roomId).emit('chatMessage', {
+      this.transport.broadcast('chatMessage', {
           sender: botName,
           text: emoji,
-          time: new Date().toLocaleTimeString(),
+          time: new Date(this.clock.now()).toLocaleTimeString(),
           seatIndex: seatIndex
       });
   }
@@ -1113,6 +1398,10 @@ export class Game {
           console.log(`[Bot] Abort: currentTurn is ${this.currentTurn}, not ${seatIndex}`);
           return;
       }
+      if (!this.isBotDriven(seatIndex)) {
+          console.log(`[Bot] Abort: seat ${seatIndex} is back under human control`);
+          return;
+      }
       
       const hand = this.hands[seatIndex];
       if (hand.length === 0) {
@@ -1129,7 +1418,7 @@ export class Game {
               console.log(`[Bot] Seat ${seatIndex} decides to use skill: ${skillDecision.skill.type}`);
               this.handleUseSkill(seatIndex, skillDecision.skill.id, skillDecision.target);
               // After using skill, schedule another bot turn for playing cards
-              const timeout = setTimeout(() => {
+              const timeout = this.clock.setTimeout(() => {
                   if (!this.isActive) {
                       console.log(`[Bot] Game no longer active, aborting bot turn for seat ${seatIndex}`);
                       return;
@@ -1141,17 +1430,16 @@ export class Game {
           }
       }
       
-      const bot = new Bot(hand, this.level);
+      const bot = new Bot(hand, this.level, this.ruleSet);
       const move = bot.decideMove(this.lastHand ? this.lastHand.hand : null);
       
-      console.log(`[Bot] Seat ${seatIndex} decides: ${move ? `Play ${move.length} cards` : 'Pass'}`);
+      console.log(`[Bot] Seat ${seatIndex} decides: ${move ? `Play ${move.cards.length} cards` : 'Pass'}`);
       
       if (move) {
-          // Check if it's a bomb (4+ same cards or straight flush)
-          const handType = getHandType(move, this.level);
-          const isBomb = handType && (handType.type === HandType.Bomb || handType.type === HandType.StraightFlush || handType.type === HandType.FourKings);
+          if (!this.playBotMove(seatIndex, move)) return;
           
-          this.handlePlayHand(seatIndex, move);
+          // Check if it's a bomb (4+ same cards or straight flush)
+          const isBomb = move.type === HandType.Bomb || move.type === HandType.StraightFlush || move.type === HandType.FourKings;
           
           // Bot sends emoji based on action
           if (isBomb) {
@@ -1168,6 +1456,26 @@ export class Game {
       }
   }
   
+  /**
+   * Play the bot's move with the reading it chose. Should the engine still
+   * refuse it, pass (or lead the smallest single on a free turn) so the seat
+   * never stalls: bots get no error message and no turn timer.
+   */
+  private playBotMove(seatIndex: number, move: Hand): boolean {
+      const moves = this.moveCount;
+      this.handlePlayHand(seatIndex, move.cards, move);
+      if (this.moveCount !== moves) return true;
+      
+      console.log(`[Bot] Seat ${seatIndex} move ${move.type} (Val: ${move.value}) was rejected, falling back`);
+      if (this.currentTurn !== seatIndex || !this.phases.allows('play')) return false;
+      if (this.lastHand && this.lastHand.playerIndex !== seatIndex) {
+          this.handlePass(seatIndex);
+      } else {
+          this.handlePlayHand(seatIndex, new Bot(this.hands[seatIndex], this.level, this.ruleSet).smallestSingle().cards);
+      }
+      return false;
+  }
+  
   decideBotSkillUse(seatIndex: number): { skill: SkillCard, target?: number } | null {
       const mySkills = this.skillCards[seatIndex];
       if (mySkills.length === 0) return null;
@@ -1230,7 +1538,7 @@ export class Game {
       }
       
       // Randomly use a skill 20% of the time if we have one
-      if (Math.random() < 0.2 && mySkills.length > 0) {
+      if (this.rng() < 0.2 && mySkills.length > 0) {
           const skill = mySkills[0];
           if ([SkillCardType.DrawTwo, SkillCardType.Harvest].includes(skill.type)) {
               return { skill };
@@ -4,6 +4,7 @@ import { Server } from 'socket.io';
 import path from 'path';
 import mime from 'mime-types';
 import { RoomManager } from './room';
+import { SnapshotStore } from './persistence';
 
 const app = express();
 const server = http.createServer(app);
@@ -14,7 +15,7 @@ const io = new Server(server, {
   }
 });
 
-const roomManager = new RoomManager(io);
+const roomManager = new RoomManager(io, new SnapshotStore());
 
 // Serve static files from dist/client
 app.use(express.static(path.join(__dirname, '../client'), {
@@ -29,8 +30,16 @@ app.use(express.static(path.join(__dirname, '../client'), {
 io.on('connection', (socket) => {
   console.log('User connected:', socket.id);
 
-  socket.on('joinRoom', ({ playerName, roomId }) => {
-    roomManager.joinRoom(socket, playerName, roomId || 'default');
+  socket.on('joinRoom', ({ playerName, roomId, sessionToken }) => {
+    roomManager.joinRoom(socket, playerName, roomId || 'default', sessionToken);
+  });
+
+  socket.on('spectateRoom', ({ playerName, roomId }) => {
+    roomManager.spectateRoom(socket, playerName, roomId || 'default');
+  });
+
+  socket.on('resumeSession', ({ roomId, sessionToken }) => {
+    roomManager.resumeSession(socket, roomId, sessionToken);
   });
 
   socket.on('getRoomList', () => {
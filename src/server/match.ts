@@ -1,45 +1,88 @@
-import { Server } from 'socket.io';
 import { Game } from './game';
 import { Player } from './room';
-import { GameMode } from '../shared/types';
+import { GameMode, DEFAULT_TURN_TIME_LIMIT, GameReplay, MAX_A_ATTEMPTS, MatchGameResult, MatchState } from '../shared/types';
+import { applyGameResult, describeLevelOutcome, tributeOrder } from '../shared/progression';
+import { RuleSet, DEFAULT_RULE_SET } from '../shared/ruleset';
+import { SeededRng, createRng, randomSeed, nextSeed } from '../shared/random';
+import { MatchSnapshot } from './persistence';
+import { GameTransport, Clock, TimerHandle, systemClock } from './transport';
 
 /**
  * Match represents a full game series (从2打到A)
- * Contains multiple Games until one team reaches A and wins twice consecutively
+ * Contains multiple Games until one team passes A (过A): wins a game as banker at A
+ * without finishing last; three failed attempts send the team back to 2
  */
 export class Match {
-    io: Server;
+    transport: GameTransport;
+    clock: Clock = systemClock; // Handed to every game; a ManualClock runs the match in virtual time
     roomId: string;
     players: Player[];
     gameMode: GameMode;
+    ruleSet: RuleSet;
+    turnTimeLimit: number; // Seconds per turn, 0 = no limit
+    seed: number; // Match seed: the first game's seed; later games draw theirs from it
+    private rng: SeededRng;
+    private nextGameSeed: number;
     
     currentGame: Game | null = null;
     teamLevels: { [key: number]: number } = { 0: 2, 1: 2 }; // Team 0 (seats 0,2) and Team 1 (seats 1,3)
     activeTeam: number = 0; // Which team is the banker (打庄)
     
     // Match end tracking
-    consecutiveWins: { [key: number]: number } = { 0: 0, 1: 0 }; // Track consecutive wins at level A
+    aAttempts: { [key: number]: number } = { 0: 0, 1: 0 }; // Failed 过A attempts per team
     matchWinner: number | null = null; // Team that won the match
     
+    // Replays and results of the finished games, oldest first
+    replays: GameReplay[] = [];
+    games: MatchGameResult[] = [];
+    // When the next game starts (clock time), while waiting between games
+    nextGameAt: number | null = null;
+    private nextGameTimer: TimerHandle | null = null;
+    
+    // Host controls: a paused match freezes the game (or the wait between games);
+    // with waitForContinue the next game starts once every connected human clicks 继续
+    paused: boolean = false;
+    waitForContinue: boolean = false;
+    awaitingNextGame: boolean = false;
+    continueVotes: number[] = [];
+    
+    // Called whenever the current game broadcasts its state (spectator feed)
+    onGameBroadcast?: (game: Game) => void;
+    // Called after any change worth saving, in the current game or between games (levels, banker, winners)
+    onChange?: () => void;
+    
     // Store last game's winners for tribute phase
     private lastWinners: number[] = [];
     
-    constructor(io: Server, roomId: string, players: Player[], gameMode: GameMode) {
-        this.io = io;
+    // Pause between games, long enough to read the summary
+    static readonly NEXT_GAME_DELAY = 3000;
+    
+    constructor(transport: GameTransport, roomId: string, players: Player[], gameMode: GameMode, ruleSet: RuleSet = DEFAULT_RULE_SET, turnTimeLimit: number = DEFAULT_TURN_TIME_LIMIT, seed: number = randomSeed()) {
+        this.transport = transport;
         this.roomId = roomId;
         this.players = players;
         this.gameMode = gameMode;
+        this.ruleSet = ruleSet;
+        this.turnTimeLimit = turnTimeLimit;
+        this.seed = seed;
+        this.rng = createRng(seed);
+        this.nextGameSeed = seed;
     }
     
     /**
      * Start the first game in the match
      */
     startMatch() {
-        console.log(`[Match ${this.roomId}] Starting new match. Mode: ${this.gameMode}`);
+        console.log(`[Match ${this.roomId}] Starting new match. Mode: ${this.gameMode}, Rules: ${this.ruleSet.id}, Seed: ${this.seed}`);
+        this.rng = createRng(this.seed);
+        this.nextGameSeed = this.seed;
         this.teamLevels = { 0: 2, 1: 2 };
         this.activeTeam = 0;
-        this.consecutiveWins = { 0: 0, 1: 0 };
+        this.aAttempts = { 0: 0, 1: 0 };
         this.matchWinner = null;
+        this.replays = [];
+        this.games = [];
+        this.paused = false;
         this.startNextGame();
     }
     
@@ -65,16 +108,91 @@ export class Match {
         // Deep copy players array to avoid reference conflicts
         const gamePlayers = this.players.map(p => ({ ...p }));
         
+        this.clearNextGameTimer();
+        this.awaitingNextGame = false;
+        this.continueVotes = [];
+        
         // Create new game
-        this.currentGame = new Game(this.io, this.roomId, gamePlayers, this.gameMode);
+        this.currentGame = new Game(this.transport, this.roomId, gamePlayers, this.gameMode, this.ruleSet);
+        this.currentGame.clock = this.clock;
         this.currentGame.teamLevels = { ...this.teamLevels };
         this.currentGame.activeTeam = this.activeTeam;
+        this.currentGame.aAttempts = { ...this.aAttempts };
         this.currentGame.prevWinners = prevWinners;
+        this.currentGame.turnTimeLimit = this.turnTimeLimit;
+        this.currentGame.seed = this.nextGameSeed;
+        this.currentGame.currentRound = this.games.length; // start() counts this game
+        this.nextGameSeed = nextSeed(this.rng);
         
+        this.attachGame(this.currentGame);
+        this.currentGame.start();
+        this.broadcastMatchState();
+    }
+    
+    private attachGame(game: Game) {
         // Listen for game end
-        this.currentGame.onGameEnd = (winners: number[]) => this.handleGameEnd(winners);
+        game.onGameEnd = (winners: number[]) => this.handleGameEnd(winners);
+        game.onBroadcast = () => this.onGameBroadcast?.(game);
+        game.onChange = () => this.onChange?.();
+    }
+    
+    toSnapshot(): MatchSnapshot {
+        return {
+            seed: this.seed,
+            rngState: this.rng.state(),
+            nextGameSeed: this.nextGameSeed,
+            teamLevels: { ...this.teamLevels },
+            activeTeam: this.activeTeam,
+            aAttempts: { ...this.aAttempts },
+            matchWinner: this.matchWinner,
+            lastWinners: [...this.lastWinners],
+            replays: this.replays,
+            games: this.games,
+            paused: this.paused,
+            awaitingNextGame: this.awaitingNextGame,
+            continueVotes: [...this.continueVotes],
+            currentGame: this.currentGame ? this.currentGame.toSnapshot() : null
+        };
+    }
+    
+    /**
+     * Rebuild a saved match and carry on: the saved game resumes where it
+     * stopped; between games the finished game is shown again and the
+     * countdown (or the wait for 继续) starts over
+     */
+    restore(snapshot: MatchSnapshot) {
+        this.seed = snapshot.seed;
+        this.rng = createRng(snapshot.rngState);
+        this.nextGameSeed = snapshot.nextGameSeed;
+        this.teamLevels = snapshot.teamLevels;
+        this.activeTeam = snapshot.activeTeam;
+        this.aAttempts = snapshot.aAttempts || { 0: 0, 1: 0 };
+        this.matchWinner = snapshot.matchWinner;
+        this.lastWinners = snapshot.lastWinners;
+        this.replays = snapshot.replays || [];
+        this.games = snapshot.games || [];
+        this.paused = !!snapshot.paused;
         
-        this.currentGame.start();
+        const saved = snapshot.currentGame;
+        if (saved) {
+            const gamePlayers = this.players.map(p => ({ ...p }));
+            this.currentGame = new Game(this.transport, this.roomId, gamePlayers, this.gameMode, this.ruleSet);
+            this.currentGame.clock = this.clock;
+            this.currentGame.turnTimeLimit = this.turnTimeLimit;
+            this.currentGame.restore(saved);
+            this.currentGame.aAttempts = { ...this.aAttempts };
+            this.currentGame.paused = this.paused;
+            this.attachGame(this.currentGame);
+            this.currentGame.resume();
+        }
+        
+        // Older snapshots did not say; a finished (or missing) game means between games
+        this.awaitingNextGame = snapshot.awaitingNextGame ?? (!saved || saved.currentPhase === 'Score');
+        if (this.awaitingNextGame) {
+            this.continueVotes = snapshot.continueVotes || [];
+            this.scheduleNextGame();
+        }
+        this.broadcastMatchState();
     }
     
     /**
@@ -88,83 +206,136 @@ export class Match {
         
         console.log(`[Match ${this.roomId}] Game ended. Winners order: ${winners}`);
         
-        // Calculate level up
-        const { winningTeam, levelIncrease } = this.calculateLevelUp(winners);
-        
-        // Update team levels
-        const oldLevel = this.teamLevels[winningTeam];
-        this.teamLevels[winningTeam] += levelIncrease;
-        
-        // Cap at A (14)
-        if (this.teamLevels[winningTeam] > 14) {
-            this.teamLevels[winningTeam] = 14;
+        if (this.currentGame?.replay) {
+            this.replays.push(this.currentGame.replay);
         }
         
-        const newLevel = this.teamLevels[winningTeam];
-        console.log(`[Match ${this.roomId}] Team ${winningTeam} level: ${oldLevel} -> ${newLevel} (+${levelIncrease})`);
+        // Levels, banker and 过A attempts (see shared/progression.ts)
+        const before = { teamLevels: this.teamLevels, activeTeam: this.activeTeam, aAttempts: this.aAttempts };
+        const outcome = applyGameResult(before, winners, this.ruleSet);
+        this.teamLevels = outcome.teamLevels;
+        this.activeTeam = outcome.activeTeam;
+        this.aAttempts = outcome.aAttempts;
         
-        // Update active team (banker)
-        if (winningTeam !== this.activeTeam) {
-            // Banker changes
-            this.activeTeam = winningTeam;
-            console.log(`[Match ${this.roomId}] Banker changed to Team ${this.activeTeam}`);
-        }
+        const lines = describeLevelOutcome(before, outcome);
+        lines.forEach(line => console.log(`[Match ${this.roomId}] ${line}`));
+        this.currentGame?.logLevelUp(lines, outcome);
         
-        // Check for match end condition
-        if (this.teamLevels[winningTeam] === 14) {
-            // Team reached A
-            this.consecutiveWins[winningTeam]++;
-            const otherTeam = 1 - winningTeam;
-            this.consecutiveWins[otherTeam] = 0; // Reset other team's consecutive wins
-            
-            console.log(`[Match ${this.roomId}] Team ${winningTeam} at level A. Consecutive wins: ${this.consecutiveWins[winningTeam]}`);
-            
-            if (this.consecutiveWins[winningTeam] >= 2) {
-                // Match won!
-                this.matchWinner = winningTeam;
-                console.log(`[Match ${this.roomId}] MATCH WON by Team ${winningTeam}!`);
-                this.broadcastMatchEnd(winningTeam);
-                return;
-            }
-        } else {
-            // Not at A yet, reset consecutive wins
-            this.consecutiveWins[0] = 0;
-            this.consecutiveWins[1] = 0;
+        this.games.push({
+            game: this.games.length + 1,
+            level: before.teamLevels[before.activeTeam],
+            bankerTeam: before.activeTeam,
+            winners: [...winners],
+            winningTeam: outcome.winningTeam,
+            pattern: outcome.pattern,
+            levelsBefore: { ...before.teamLevels },
+            levelsAfter: { ...outcome.teamLevels },
+            nextBanker: outcome.activeTeam,
+            aAttempts: { ...outcome.aAttempts },
+            failedA: outcome.failedA,
+            fellBack: outcome.fellBack,
+            passedA: outcome.matchWinner !== null,
+            nextTribute: outcome.matchWinner !== null ? [] : tributeOrder(winners, this.ruleSet)
+        });
+        
+        if (outcome.matchWinner !== null) {
+            this.matchWinner = outcome.matchWinner;
+            console.log(`[Match ${this.roomId}] MATCH WON by Team ${this.matchWinner}!`);
+            this.onChange?.();
+            this.broadcastMatchState();
+            this.broadcastMatchEnd(this.matchWinner);
+            return;
         }
         
         // Store winners in Match for next game's tribute phase
         this.lastWinners = winners;
         
-        // Auto-start next game after a short delay
-        setTimeout(() => {
+        this.awaitingNextGame = true;
+        this.continueVotes = [];
+        this.scheduleNextGame();
+        this.onChange?.();
+        this.broadcastMatchState();
+    }
+    
+    // Auto-start the next game after a short delay, unless paused or waiting for 继续
+    private scheduleNextGame() {
+        this.clearNextGameTimer();
+        // With nobody connected to click 继续 the countdown runs as usual
+        if (this.paused || (this.waitForContinue && this.continueSeats().length > 0)) return;
+        this.nextGameAt = this.clock.now() + Match.NEXT_GAME_DELAY;
+        this.nextGameTimer = this.clock.setTimeout(() => {
             this.startNextGame();
-        }, 3000); // 3 second delay before next game
+        }, Match.NEXT_GAME_DELAY);
+    }
+    
+    private clearNextGameTimer() {
+        if (this.nextGameTimer) {
+            this.clock.clearTimeout(this.nextGameTimer);
+            this.nextGameTimer = null;
+        }
+        this.nextGameAt = null;
     }
     
     /**
-     * Calculate level increase based on winners
+     * Pause or resume the match. Mid-game the game freezes with its turn timer;
+     * between games the countdown stops and restarts in full on resume
      */
-    calculateLevelUp(winners: number[]): { winningTeam: number, levelIncrease: number } {
-        const p1 = winners[0];
-        const p2 = winners[1];
-        const p3 = winners[2];
-        
-        const isSameTeam = (a: number, b: number) => (a % 2) === (b % 2);
-        const winningTeam = p1 % 2;
-        
-        let levelIncrease = 0;
-        if (isSameTeam(p1, p2)) {
-            // Double win (1st and 2nd same team) -> +3
-            levelIncrease = 3;
-        } else if (isSameTeam(p1, p3)) {
-            // 1st and 3rd same team -> +2
-            levelIncrease = 2;
+    setPaused(paused: boolean): boolean {
+        if (this.paused === paused || this.matchWinner !== null) return false;
+        console.log(`[Match ${this.roomId}] ${paused ? 'Paused' : 'Resumed'}`);
+        this.paused = paused;
+        
+        if (this.awaitingNextGame) {
+            this.scheduleNextGame();
+            if (!paused) this.checkContinue();
         } else {
-            // Only 1st place -> +1
-            levelIncrease = 1;
+            this.currentGame?.setPaused(paused);
         }
-        
-        return { winningTeam, levelIncrease };
+        this.onChange?.();
+        this.broadcastMatchState();
+        return true;
+    }
+    
+    // Switch between the automatic countdown and waiting for every player's 继续
+    setWaitForContinue(enabled: boolean) {
+        if (this.waitForContinue === enabled) return;
+        this.waitForContinue = enabled;
+        if (this.awaitingNextGame) {
+            this.scheduleNextGame();
+            this.checkContinue();
+        }
+        this.broadcastMatchState();
+    }
+    
+    // Humans whose 继续 the next game waits for; disconnected players are not waited on
+    private continueSeats(): number[] {
+        return this.players.filter(p => !p.isBot && !p.isDisconnected).map(p => p.seatIndex);
+    }
+    
+    playerContinue(seatIndex: number) {
+        if (!this.awaitingNextGame || !this.waitForContinue || this.continueVotes.includes(seatIndex)) return;
+        this.continueVotes.push(seatIndex);
+        if (!this.checkContinue()) this.broadcastMatchState();
+    }
+    
+    /**
+     * Start the next game once everyone waited on has clicked 继续.
+     * Also called when a player leaves, who may have been the last one missing
+     */
+    checkContinue(): boolean {
+        if (!this.awaitingNextGame || !this.waitForContinue || this.paused || this.matchWinner !== null) return false;
+        const seats = this.continueSeats();
+        if (seats.length === 0 || !seats.every(seat => this.continueVotes.includes(seat))) {
+            // The last human left (countdown) or the first came back (wait again)
+            if ((seats.length === 0) !== (this.nextGameAt !== null)) this.scheduleNextGame();
+            return false;
+        }
+        this.startNextGame();
+        return true;
+    }
+    
+    broadcastMatchState() {
+        this.transport.broadcast('matchState', this.getMatchState());
     }
     
     /**
@@ -172,23 +343,40 @@ export class Match {
      */
     broadcastMatchEnd(winningTeam: number) {
         const teamPlayers = this.players.filter(p => p.seatIndex % 2 === winningTeam);
-        this.io.to(this.roomId).emit('matchOver', {
+        this.transport.broadcast('matchOver', {
             winningTeam,
             winners: teamPlayers.map(p => ({ name: p.name, seatIndex: p.seatIndex })),
             finalLevels: this.teamLevels
         });
     }
     
+    // Finished games for clients; any one seed predicts the later deals, so seeds wait for the match to end
+    publicReplays(): GameReplay[] {
+        if (this.matchWinner !== null) return this.replays;
+        return this.replays.map(({ seed, ...replay }) => replay);
+    }
+    
     /**
      * Get current match state for clients
      */
-    getMatchState() {
+    getMatchState(): MatchState {
         return {
             teamLevels: this.teamLevels,
             activeTeam: this.activeTeam,
-            consecutiveWins: this.consecutiveWins,
+            ruleSetId: this.ruleSet.id,
+            seed: this.matchWinner !== null ? this.seed : undefined,
+            aAttempts: this.aAttempts,
+            maxAAttempts: MAX_A_ATTEMPTS,
             matchWinner: this.matchWinner,
-            inProgress: this.currentGame !== null && this.matchWinner === null
+            inProgress: this.currentGame !== null && this.matchWinner === null,
+            games: this.games,
+            nextGameAt: this.nextGameAt,
+            serverTime: this.clock.now(),
+            paused: this.paused,
+            waitForContinue: this.waitForContinue,
+            awaitingNextGame: this.awaitingNextGame,
+            continueVotes: this.continueVotes,
+            continueSeats: this.continueSeats()
         };
     }
     
@@ -197,8 +385,12 @@ export class Match {
      */
     forceEndMatch() {
         console.log(`[Match ${this.roomId}] Force ending match`);
+        this.clearNextGameTimer();
+        this.awaitingNextGame = false;
+        this.continueVotes = [];
+        this.currentGame?.destroy();
         this.currentGame = null;
         this.matchWinner = null;
-        this.consecutiveWins = { 0: 0, 1: 0 };
+        this.aAttempts = { 0: 0, 1: 0 };
     }
 }
@@ -0,0 +1,182 @@
+import fs from 'fs';
+import path from 'path';
+import { Card, Hand, GameMode, SkillCard, HistoryEntry, GameReplay, SpectatorView, MatchGameResult } from '../shared/types';
+import { RuleSetId } from '../shared/ruleset';
+
+// Plain-JSON copies of the in-memory state, enough to pick a match up after a restart.
+// Sockets, timers and spectators are not saved; players come back through their session token.
+// Replays of finished games go to a file of their own, rewritten only when a game ends.
+
+export interface GameSnapshot {
+  seed: number;
+  rngState: number;
+  generatedCardCount: number;
+  level: number;
+  currentPhase: string;
+  currentTurn: number;
+  hands: Card[][];
+  lastHand: { playerIndex: number, hand: Hand } | null;
+  passCount: number;
+  roundActions: { [seat: number]: { type: 'play' | 'pass', cards?: Card[], hand?: Hand } };
+  winners: number[];
+  tributeState: {
+    pendingTributes: { from: number, to: number, card?: Card }[];
+    pendingReturns: { from: number, to: number, card?: Card }[];
+    nextStartPlayer?: number;
+  };
+  teamLevels: { [key: number]: number };
+  activeTeam: number;
+  prevWinners: number[];
+  autoPlay: boolean[];
+  moveCount: number;
+  skillCards: SkillCard[][];
+  skipNextTurn: boolean[];
+  history: HistoryEntry[];
+  historyIdCounter: number;
+  currentRound: number;
+  replay: GameReplay | null;
+  replayHands: Card[][];
+}
+
+export interface MatchSnapshot {
+  seed: number;
+  rngState: number;
+  nextGameSeed: number;
+  teamLevels: { [key: number]: number };
+  activeTeam: number;
+  aAttempts: { [key: number]: number };
+  matchWinner: number | null;
+  lastWinners: number[];
+  replays?: GameReplay[]; // Only in memory; SnapshotStore keeps them in the replay file
+  games: MatchGameResult[];
+  paused?: boolean;
+  awaitingNextGame?: boolean; // Between games: the finished game is still currentGame
+  continueVotes?: number[];
+  currentGame: GameSnapshot | null;
+}
+
+export interface RoomSnapshot {
+  id: string;
+  gameMode: GameMode;
+  ruleSetId: RuleSetId;
+  turnTimeLimit: number;
+  spectatorView: SpectatorView;
+  spectatorDelay: number;
+  waitForContinue?: boolean;
+  players: ({ id: string, name: string, seatIndex: number, isReady: boolean, isBot?: boolean, sessionToken?: string } | null)[];
+  chatHistory: { sender: string, text: string, time: string, seatIndex: number }[];
+  match: MatchSnapshot;
+}
+
+interface SnapshotFile {
+  version: number;
+  savedAt: number;
+  rooms: RoomSnapshot[];
+}
+
+const SNAPSHOT_VERSION = 1;
+
+export const DEFAULT_DATA_FILE = process.env.DATA_FILE || path.join(process.cwd(), 'data', 'rooms.json');
+
+/**
+ * Saves room snapshots to a JSON file. Saves requested during one tick are
+ * written once, after the action that triggered them has fully run.
+ */
+export class SnapshotStore {
+  private file: string;
+  private replayFile: string;
+  private pending: (() => RoomSnapshot[]) | null = null;
+  // Room id -> how many replays the replay file holds for it
+  private savedReplays = new Map<string, number>();
+
+  constructor(file: string = DEFAULT_DATA_FILE) {
+    this.file = file;
+    this.replayFile = file.replace(/\.json$/, '') + '.replays.json';
+  }
+
+  load(): RoomSnapshot[] {
+    try {
+      if (!fs.existsSync(this.file)) return [];
+      const data: SnapshotFile = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      if (data.version !== SNAPSHOT_VERSION || !Array.isArray(data.rooms)) {
+        this.setAside(this.file, `unsupported snapshot version ${data.version}`);
+        return [];
+      }
+      const replays = this.loadReplays();
+      data.rooms.forEach(room => {
+        room.match.replays = replays[room.id] || room.match.replays || [];
+        this.savedReplays.set(room.id, room.match.replays.length);
+      });
+      return data.rooms;
+    } catch (err) {
+      this.setAside(this.file, err);
+      return [];
+    }
+  }
+
+  private loadReplays(): { [roomId: string]: GameReplay[] } {
+    try {
+      if (!fs.existsSync(this.replayFile)) return {};
+      return JSON.parse(fs.readFileSync(this.replayFile, 'utf8'));
+    } catch (err) {
+      this.setAside(this.replayFile, err);
+      return {};
+    }
+  }
+
+  // The next save would overwrite a file we could not read; keep it for a look instead
+  private setAside(file: string, reason: unknown) {
+    const aside = `${file}.corrupt-${Date.now()}`;
+    try {
+      fs.renameSync(file, aside);
+      console.warn(`[Persist] Could not read ${file} (${reason}); moved it to ${aside} and starting empty`);
+    } catch (err) {
+      console.error(`[Persist] Could not read ${file} (${reason}) nor move it aside:`, err);
+    }
+  }
+
+  scheduleSave(collect: () => RoomSnapshot[]) {
+    const first = this.pending === null;
+    this.pending = collect;
+    if (first) {
+      setImmediate(() => this.flush());
+    }
+  }
+
+  flush() {
+    if (!this.pending) return;
+    const collect = this.pending;
+    this.pending = null;
+    try {
+      const rooms = collect();
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      // Replays only grow when a game ends (or go when a room does)
+      const replaysChanged = rooms.length !== this.savedReplays.size
+        || rooms.some(room => this.savedReplays.get(room.id) !== (room.match.replays || []).length);
+      if (replaysChanged) {
+        const replays: { [roomId: string]: GameReplay[] } = {};
+        rooms.forEach(room => replays[room.id] = room.match.replays || []);
+        this.write(this.replayFile, replays);
+        this.savedReplays = new Map(rooms.map(room => [room.id, replays[room.id].length]));
+      }
+      const data: SnapshotFile = {
+        version: SNAPSHOT_VERSION,
+        savedAt: Date.now(),
+        rooms: rooms.map(room => {
+          const { replays, ...match } = room.match;
+          return { ...room, match };
+        })
+      };
+      this.write(this.file, data);
+    } catch (err) {
+      console.error(`[Persist] Failed to write ${this.file}:`, err);
+    }
+  }
+
+  // Write then rename so a crash mid-write never leaves a truncated file
+  private write(file: string, data: any) {
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data));
+    fs.renameSync(tmp, file);
+  }
+}
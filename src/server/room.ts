@@ -1,7 +1,11 @@
 import { Server, Socket } from 'socket.io';
+import { randomUUID } from 'crypto';
 import { Game } from './game';
 import { Match } from './match';
-import { GameMode } from '../shared/types';
+import { GameMode, TURN_TIME_LIMITS, DEFAULT_TURN_TIME_LIMIT, SpectatorView, SPECTATOR_DELAYS } from '../shared/types';
+import { RuleSetId, getRuleSet } from '../shared/ruleset';
+import { SnapshotStore, RoomSnapshot } from './persistence';
+import { GameTransport, Clock, TimerHandle, systemClock } from './transport';
 
 export interface Player {
   id: string; // Socket ID (Current)
@@ -11,23 +15,70 @@ export interface Player {
   isReady: boolean;
   isBot?: boolean;
   isDisconnected?: boolean; // New flag
+  sessionToken?: string; // Secret issued on join; reconnects are matched by it, never by name
+}
+
+export interface Spectator {
+  id: string; // Socket ID
+  name: string;
+  socket: Socket;
+  followSeat: number | null; // Seat whose view is shown (and revealed in FollowSeat view)
 }
 
 export class RoomManager {
   private io: Server;
   private rooms: Map<string, Room> = new Map();
+  private store?: SnapshotStore;
 
-  constructor(io: Server) {
+  constructor(io: Server, store?: SnapshotStore) {
     this.io = io;
+    this.store = store;
+    
+    // Pick up matches that were running when the server stopped
+    if (store) {
+      store.load().forEach(snapshot => {
+        console.log(`[Persist] Restoring room ${snapshot.id}`);
+        this.addRoom(Room.fromSnapshot(io, snapshot));
+      });
+    }
+  }
+  
+  private addRoom(room: Room) {
+    room.onChange = () => this.persist();
+    this.rooms.set(room.id, room);
+  }
+  
+  // Only rooms with a match in progress are worth keeping
+  private persist() {
+    this.store?.scheduleSave(() => Array.from(this.rooms.values())
+      .map(room => room.toSnapshot())
+      .filter((s): s is RoomSnapshot => s !== null));
   }
 
-  joinRoom(socket: Socket, playerName: string, roomId: string) {
+  joinRoom(socket: Socket, playerName: string, roomId: string, sessionToken?: string) {
     let room = this.rooms.get(roomId);
     if (!room) {
       room = new Room(roomId, this.io);
-      this.rooms.set(roomId, room);
+      this.addRoom(room);
+    }
+    room.addPlayer(socket, playerName, sessionToken);
+  }
+
+  spectateRoom(socket: Socket, name: string, roomId: string) {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      socket.emit('error', '房间不存在');
+      return;
+    }
+    room.addSpectator(socket, name);
+  }
+
+  // Rejoin a seat after a refresh or reconnect; never takes a new seat
+  resumeSession(socket: Socket, roomId: string, sessionToken: string) {
+    const room = this.rooms.get(roomId);
+    if (!room || !room.resumePlayer(socket, sessionToken)) {
+      socket.emit('sessionExpired');
     }
-    room.addPlayer(socket, playerName);
   }
 
   handleDisconnect(socket: Socket) {
@@ -43,6 +94,8 @@ export class RoomManager {
       maxPlayers: 4,
       inGame: room.match !== null && room.match.currentGame !== null,
       gameMode: room.gameMode,
+      ruleSetId: room.ruleSetId,
+      spectatorCount: room.spectators.length,
       hostName: room.players[0]?.name || 'Unknown'
     }));
     return roomList;
@@ -54,58 +107,91 @@ export class RoomManager {
   }
 }
 
-class Room {
+// How long a disconnected player's seat waits before the bot takes over
+export const DISCONNECT_GRACE_MS = 15000;
+// Chat messages replayed to a reconnecting player
+const CHAT_HISTORY_LIMIT = 100;
+
+export class Room {
   id: string;
   io: Server;
   players: (Player | null)[] = [null, null, null, null];
   match: Match | null = null; // Changed from game to match
   gameMode: GameMode = GameMode.Normal;
+  ruleSetId: RuleSetId = getRuleSet().id;
+  turnTimeLimit: number = DEFAULT_TURN_TIME_LIMIT;
+  waitForContinue: boolean = false; // Between games wait for every player's 继续 (host setting)
+  private takeoverTimers: (TimerHandle | null)[] = [null, null, null, null];
+  private chatHistory: { sender: string, text: string, time: string, seatIndex: number }[] = [];
+  
+  // Spectators and what they may see (host settings)
+  spectators: Spectator[] = [];
+  spectatorView: SpectatorView = SpectatorView.Hidden;
+  spectatorDelay: number = 0; // Seconds
+  private spectatorTimers: TimerHandle[] = [];
+  // Spectators' own socket room: they never hear the players' room directly
+  private spectatorRoom: string;
+  
+  // Called after any change worth saving (set by RoomManager)
+  onChange?: () => void;
+  // Grace-period timers; handed on to the match and its games
+  clock: Clock = systemClock;
 
   constructor(id: string, io: Server) {
     this.id = id;
     this.io = io;
+    this.spectatorRoom = `${id}:spectators`;
+  }
+  
+  toSnapshot(): RoomSnapshot | null {
+    if (!this.match || this.match.matchWinner !== null) return null;
+    return {
+      id: this.id,
+      gameMode: this.gameMode,
+      ruleSetId: this.ruleSetId,
+      turnTimeLimit: this.turnTimeLimit,
+      spectatorView: this.spectatorView,
+      spectatorDelay: this.spectatorDelay,
+      waitForContinue: this.waitForContinue,
+      players: this.players.map(p => p ? { id: p.id, name: p.name, seatIndex: p.seatIndex, isReady: p.isReady, isBot: p.isBot, sessionToken: p.sessionToken } : null),
+      chatHistory: this.chatHistory,
+      match: this.match.toSnapshot()
+    };
+  }
+  
+  // Every human starts out disconnected and gets the usual grace period to resume their seat
+  static fromSnapshot(io: Server, snapshot: RoomSnapshot, clock: Clock = systemClock): Room {
+    const room = new Room(snapshot.id, io);
+    room.clock = clock;
+    room.gameMode = snapshot.gameMode;
+    room.ruleSetId = snapshot.ruleSetId;
+    room.turnTimeLimit = snapshot.turnTimeLimit;
+    room.spectatorView = snapshot.spectatorView;
+    room.spectatorDelay = snapshot.spectatorDelay;
+    room.waitForContinue = !!snapshot.waitForContinue;
+    room.chatHistory = snapshot.chatHistory;
+    room.players = snapshot.players.map(p => p ? { ...p, isDisconnected: !p.isBot } : null);
+    
+    const players = room.players as Player[];
+    room.match = new Match(room.gameTransport(), room.id, players, room.gameMode, getRuleSet(room.ruleSetId), room.turnTimeLimit, snapshot.match.seed);
+    room.attachMatch(room.match);
+    room.match.restore(snapshot.match);
+    players.forEach(p => {
+      if (!p.isBot) room.scheduleTakeover(p.seatIndex);
+    });
+    return room;
+  }
+  
+  private attachMatch(match: Match) {
+    match.waitForContinue = this.waitForContinue;
+    match.clock = this.clock;
+    match.onGameBroadcast = (game) => this.broadcastSpectatorState(game);
+    match.onChange = () => this.onChange?.();
   }
 
-  addPlayer(socket: Socket, name: string) {
+  addPlayer(socket: Socket, name: string, sessionToken?: string) {
     // Check for reconnection first
-    const existingPlayerIndex = this.players.findIndex(p => p && p.name === name && p.isDisconnected);
-    if (existingPlayerIndex !== -1) {
-        // Reconnect logic
-        const player = this.players[existingPlayerIndex]!;
-        player.isDisconnected = false;
-        player.id = socket.id; // Update socket ID
-        player.socket = socket;
-        
-        socket.join(this.id);
-        
-        // Re-bind listeners
-        this.bindSocketListeners(socket, existingPlayerIndex);
-        
-        // If game is running, update game player ref?
-        if (this.match && this.match.currentGame) {
-            const game = this.match.currentGame;
-            game.players[existingPlayerIndex] = player;
-            // Also need to re-bind game listeners!
-            game.rebindPlayer(player);
-            // Send current game state to reconnected player
-            const p = player;
-            socket.emit('gameState', {
-                phase: (game as any).currentPhase,
-                level: game.level,
-                currentTurn: game.currentTurn,
-                hands: game.hands.map((h, i) => i === p.seatIndex ? h : h.length),
-                lastHand: game.lastHand,
-                winners: game.winners,
-                tributeState: (game as any).currentPhase === 'Tribute' || (game as any).currentPhase === 'ReturnTribute' ? game.tributeState : undefined,
-                teamLevels: game.teamLevels,
-                activeTeam: game.activeTeam
-            });
-        }
-        
-        this.io.to(this.id).emit('error', `Player ${name} reconnected!`);
-        this.broadcastState();
-        return;
-    }
+    if (sessionToken && this.resumePlayer(socket, sessionToken)) return;
 
     // Normal Join
     // Find empty seat
@@ -120,18 +206,158 @@ class Room {
       name,
       socket,
       seatIndex,
-      isReady: false
+      isReady: false,
+      sessionToken: randomUUID()
     };
 
     this.players[seatIndex] = player;
     socket.join(this.id);
     
     this.bindSocketListeners(socket, seatIndex);
+    socket.emit('session', { token: player.sessionToken, roomId: this.id, name });
+    socket.emit('chatHistory', this.playerChatHistory());
     
     // Broadcast update
     this.broadcastState();
   }
   
+  addSpectator(socket: Socket, name: string) {
+    const spectator: Spectator = { id: socket.id, name, socket, followSeat: null };
+    this.spectators.push(spectator);
+    socket.join(this.spectatorRoom);
+    
+    socket.on('chatMessage', (msg: string) => this.handleChat(socket, msg));
+    socket.on('spectateSeat', (seat: number | null) => this.setFollowSeat(spectator, seat));
+    socket.on('getReplays', () => this.sendReplays(socket));
+    
+    socket.emit('spectating', { roomId: this.id });
+    socket.emit('chatHistory', this.chatHistory);
+    if (this.match) this.sendToSpectator(spectator, 'matchState', this.match.getMatchState());
+    this.broadcastState();
+    
+    if (this.match && this.match.currentGame) {
+        this.sendSpectatorState(spectator, this.match.currentGame);
+    }
+  }
+  
+  setFollowSeat(spectator: Spectator, seat: number | null) {
+      spectator.followSeat = seat !== null && seat >= 0 && seat <= 3 ? seat : null;
+      if (this.match && this.match.currentGame) {
+          this.sendSpectatorState(spectator, this.match.currentGame);
+      }
+  }
+  
+  setSpectatorView(socket: Socket, view: SpectatorView, delay: number) {
+      // Only host (seat 0) can change what spectators see
+      const idx = this.getSeat(socket);
+      if (idx !== 0) {
+          socket.emit('error', '只有房主可以设置观战视角');
+          return;
+      }
+      if (!Object.values(SpectatorView).includes(view) || !SPECTATOR_DELAYS.includes(delay)) {
+          socket.emit('error', '无效的观战设置');
+          return;
+      }
+      this.spectatorView = view;
+      this.spectatorDelay = delay;
+      this.broadcastState();
+  }
+  
+  broadcastSpectatorState(game: Game) {
+      this.spectators.forEach(s => this.sendSpectatorState(s, game));
+  }
+  
+  // Redacted (or host-allowed) view of the game, held back by the spectator delay
+  sendSpectatorState(spectator: Spectator, game: Game) {
+      const seat = spectator.followSeat ?? 0;
+      const revealed = this.spectatorView === SpectatorView.God ? [0, 1, 2, 3]
+          : this.spectatorView === SpectatorView.FollowSeat && spectator.followSeat !== null ? [spectator.followSeat]
+          : [];
+      const state = {
+          ...game.buildGameState(seat, revealed),
+          mySkillCards: [],
+          newCardIds: [],
+          spectator: { view: this.spectatorView, followSeat: spectator.followSeat, delay: this.spectatorDelay }
+      };
+      // The deadline is stale by the time a delayed state arrives
+      this.sendToSpectator(spectator, 'gameState', this.spectatorDelay > 0 ? { ...state, turnDeadline: null } : state);
+  }
+  
+  // Everything a spectator learns about the game goes through here
+  private sendToSpectator(spectator: Spectator, event: string, ...args: any[]) {
+      if (this.spectatorDelay <= 0) {
+          spectator.socket.emit(event, ...args);
+          return;
+      }
+      // Snapshot now; the live objects keep changing
+      const snapshot = JSON.parse(JSON.stringify(args));
+      const timer = this.clock.setTimeout(() => {
+          this.spectatorTimers = this.spectatorTimers.filter(t => t !== timer);
+          if (!this.spectators.includes(spectator)) return;
+          spectator.socket.emit(event, ...snapshot);
+      }, this.spectatorDelay * 1000);
+      this.spectatorTimers.push(timer);
+  }
+  
+  // Only finished games: a replay shows every hand
+  sendReplays(socket: Socket) {
+      socket.emit('replays', this.match ? this.match.publicReplays() : []);
+  }
+  
+  clearSpectatorTimers() {
+      this.spectatorTimers.forEach(t => this.clock.clearTimeout(t));
+      this.spectatorTimers = [];
+  }
+  
+  // Give the seat holding this session token to the socket; false if none
+  resumePlayer(socket: Socket, sessionToken: string): boolean {
+    const seatIndex = this.players.findIndex(p => p && !p.isBot && p.sessionToken === sessionToken);
+    if (seatIndex === -1) return false;
+    
+    const player = this.players[seatIndex]!;
+    const oldSocket = player.socket;
+    const isNewSocket = oldSocket !== socket;
+    
+    player.isDisconnected = false;
+    player.id = socket.id; // Update socket ID
+    player.socket = socket;
+    socket.join(this.id);
+    
+    if (isNewSocket) {
+        // A second tab or a stale connection loses the seat
+        if (oldSocket && oldSocket.connected) {
+            oldSocket.emit('error', '已在其他页面重新连接');
+            oldSocket.disconnect(true);
+        }
+        // Re-bind listeners
+        this.bindSocketListeners(socket, seatIndex);
+    }
+    
+    this.cancelTakeover(seatIndex);
+    socket.emit('session', { token: sessionToken, roomId: this.id, name: player.name });
+    socket.emit('chatHistory', this.playerChatHistory());
+    // A countdown that ran while nobody was connected now waits for this player's 继续
+    if (this.match && !this.match.checkContinue()) this.match.broadcastMatchState();
+    this.broadcastState();
+    
+    // If game is running, update game player ref and take the seat back from the bot
+    if (this.match && this.match.currentGame) {
+        const game = this.match.currentGame;
+        game.players[seatIndex] = player;
+        // Also need to re-bind game listeners!
+        if (isNewSocket) game.rebindPlayer(player);
+        // Hand control back; this also sends the full game state
+        if (game.autoPlay[seatIndex]) {
+            game.setAutoPlay(seatIndex, false);
+        } else {
+            game.broadcastGameState();
+        }
+    }
+    
+    this.notify('error', `Player ${player.name} reconnected!`);
+    return true;
+  }
+  
   bindSocketListeners(socket: Socket, seatIndex: number) {
     // Listen for room events
     socket.on('ready', () => {
@@ -142,15 +368,26 @@ class Room {
         const idx = this.getSeat(socket);
         if (idx !== -1) this.setReady(idx, true);
     });
-    socket.on('start', () => {
+    socket.on('start', (options?: { seed?: number }) => {
         const idx = this.getSeat(socket);
-        if (idx !== -1) this.forceStart(idx);
+        if (idx !== -1) this.forceStart(idx, options?.seed);
     });
     
     socket.on('chatMessage', (msg: string) => this.handleChat(socket, msg));
     socket.on('switchSeat', (targetSeat: number) => this.switchSeat(socket, targetSeat));
     socket.on('setGameMode', (mode: GameMode) => this.setGameMode(socket, mode));
+    socket.on('setRuleSet', (ruleSetId: RuleSetId) => this.setRuleSet(socket, ruleSetId));
+    socket.on('setTurnTimeLimit', (seconds: number) => this.setTurnTimeLimit(socket, seconds));
+    socket.on('setSpectatorView', ({ view, delay }: { view: SpectatorView, delay: number }) => this.setSpectatorView(socket, view, delay));
     socket.on('forceEndGame', () => this.handleForceEnd(socket));
+    socket.on('pauseMatch', () => this.setPaused(socket, true));
+    socket.on('resumeMatch', () => this.setPaused(socket, false));
+    socket.on('setWaitForContinue', (enabled: boolean) => this.setWaitForContinue(socket, enabled));
+    socket.on('continueMatch', () => {
+        const idx = this.getSeat(socket);
+        if (idx !== -1) this.match?.playerContinue(idx);
+    });
+    socket.on('getReplays', () => this.sendReplays(socket));
   }
   
   handleForceEnd(socket: Socket) {
@@ -171,6 +408,7 @@ class Room {
       // Stop the match
       this.match.forceEndMatch();
       this.match = null;
+      this.clearSpectatorTimers();
       
       // Reset players ready status
       this.players.forEach(p => {
@@ -180,13 +418,39 @@ class Room {
       });
       
       // Notify everyone
-      this.io.to(this.id).emit('error', '房主强制结束了对局');
+      this.notify('error', '房主强制结束了对局');
       // Emit a special "matchTerminated" or just let the roomState update handle it?
       // The client relies on `gameState` event to enter game view. 
       // If we stop emitting gameState, client might get stuck if it doesn't know game ended.
       // We should emit a null gameState or explicit termination signal.
       
-      this.io.to(this.id).emit('gameTerminated'); 
+      this.notify('gameTerminated'); 
+      this.broadcastState();
+  }
+
+  setPaused(socket: Socket, paused: boolean) {
+      if (this.getSeat(socket) !== 0) {
+          socket.emit('error', paused ? '只有房主可以暂停对局' : '只有房主可以继续对局');
+          return;
+      }
+      if (!this.match || this.match.matchWinner !== null) {
+          socket.emit('error', '当前没有正在进行的对局');
+          return;
+      }
+      if (this.match.setPaused(paused)) {
+          this.notify('error', paused ? '房主暂停了对局' : '房主恢复了对局');
+      }
+  }
+  
+  // Unlike the other settings this one can change mid-match
+  setWaitForContinue(socket: Socket, enabled: boolean) {
+      if (this.getSeat(socket) !== 0) {
+          socket.emit('error', '只有房主可以设置下一局的开始方式');
+          return;
+      }
+      this.waitForContinue = !!enabled;
+      this.match?.setWaitForContinue(this.waitForContinue);
+      this.notify('error', this.waitForContinue ? '下一局将在所有玩家点击“继续”后开始' : '下一局将在倒计时后自动开始');
       this.broadcastState();
   }
 
@@ -203,19 +467,71 @@ class Room {
           return;
       }
       this.gameMode = mode;
-      this.io.to(this.id).emit('error', `游戏模式已切换为: ${mode === GameMode.Skill ? '技能模式' : '普通模式'}`);
+      this.notify('error', `游戏模式已切换为: ${mode === GameMode.Skill ? '技能模式' : '普通模式'}`);
+      this.broadcastState();
+  }
+
+  setRuleSet(socket: Socket, ruleSetId: RuleSetId) {
+      // Only host (seat 0) can change the rule set
+      const idx = this.getSeat(socket);
+      if (idx !== 0) {
+          socket.emit('error', '只有房主可以切换规则');
+          return;
+      }
+      // Can only change before match starts
+      if (this.match && this.match.matchWinner === null) {
+          socket.emit('error', '对局进行中无法切换规则');
+          return;
+      }
+      const ruleSet = getRuleSet(ruleSetId);
+      this.ruleSetId = ruleSet.id;
+      this.notify('error', `规则已切换为: ${ruleSet.name}`);
       this.broadcastState();
   }
 
+  setTurnTimeLimit(socket: Socket, seconds: number) {
+      // Only host (seat 0) can change the turn timer
+      const idx = this.getSeat(socket);
+      if (idx !== 0) {
+          socket.emit('error', '只有房主可以设置出牌时限');
+          return;
+      }
+      // Can only change before match starts
+      if (this.match && this.match.matchWinner === null) {
+          socket.emit('error', '对局进行中无法设置出牌时限');
+          return;
+      }
+      if (!TURN_TIME_LIMITS.includes(seconds)) {
+          socket.emit('error', '无效的出牌时限');
+          return;
+      }
+      this.turnTimeLimit = seconds;
+      this.notify('error', seconds > 0 ? `出牌时限已设置为: ${seconds}秒` : '已取消出牌时限');
+      this.broadcastState();
+  }
+
+  // What players may read back: spectator messages (seat -1) stay with the spectators
+  private playerChatHistory() {
+      return this.chatHistory.filter(m => m.seatIndex >= 0);
+  }
+
   handleChat(socket: Socket, msg: string) {
       const p = this.players.find(p => p && p.id === socket.id);
-      if (p) {
-          this.io.to(this.id).emit('chatMessage', { 
-              sender: p.name, 
+      const spectator = this.spectators.find(s => s.id === socket.id);
+      if (p || spectator) {
+          const message = { 
+              sender: p ? p.name : `${spectator!.name} (观战)`, 
               text: msg, 
               time: new Date().toLocaleTimeString(),
-              seatIndex: p.seatIndex  // Include seat for bubble display
-          });
+              seatIndex: p ? p.seatIndex : -1  // Include seat for bubble display
+          };
+          // Kept so a reconnecting player gets the conversation back
+          this.chatHistory.push(message);
+          if (this.chatHistory.length > CHAT_HISTORY_LIMIT) this.chatHistory.shift();
+          this.onChange?.();
+          // Spectators talk among themselves; they could otherwise call out the cards
+          if (p) this.notify('chatMessage', message);
+          else this.io.to(this.spectatorRoom).emit('chatMessage', message);
       }
   }
 
@@ -245,6 +561,13 @@ class Room {
   }
 
   handleDisconnect(socket: Socket) {
+    const spectatorIdx = this.spectators.findIndex(s => s.id === socket.id);
+    if (spectatorIdx !== -1) {
+      this.spectators.splice(spectatorIdx, 1);
+      this.broadcastState();
+      return;
+    }
+    
     const index = this.players.findIndex(p => p && p.id === socket.id);
     if (index !== -1) {
       const player = this.players[index]!;
@@ -255,22 +578,44 @@ class Room {
       player.isReady = false; // Unready
       // player.socket = undefined; // Don't remove ref entirely? or optional?
       
-      // If match running, DO NOT end match immediately.
+      // Keep the seat for the grace period, in the lobby as well as mid-match.
       // Allow reconnect.
-      if (this.match && this.match.currentGame) {
-          this.io.to(this.id).emit('error', `Player ${playerName} disconnected (Waiting for reconnect...)`);
-      } else {
-           // If game not started, just notify
-           // Should we remove player if game not started? 
-           // Maybe yes, to free up seat? 
-           // Let's remove if game not started.
-           this.players[index] = null;
-           this.io.to(this.id).emit('error', `Player ${playerName} left the room`);
-      }
+      this.notify('error', `Player ${playerName} disconnected (Waiting for reconnect...)`);
+      this.scheduleTakeover(index);
+      // The next game may only have been waiting on this player's 继续
+      if (this.match && !this.match.checkContinue()) this.match.broadcastMatchState();
       this.broadcastState();
     }
   }
 
+  // After the grace period the bot plays the seat (托管) until the player returns;
+  // with no match running (or the match already won) the seat is freed instead
+  scheduleTakeover(seatIndex: number) {
+      this.cancelTakeover(seatIndex);
+      this.takeoverTimers[seatIndex] = this.clock.setTimeout(() => {
+          this.takeoverTimers[seatIndex] = null;
+          const player = this.players[seatIndex];
+          if (!player || !player.isDisconnected) return;
+          const game = this.match?.currentGame;
+          if (!game || this.match!.matchWinner !== null) {
+              this.players[seatIndex] = null;
+              this.notify('error', `Player ${player.name} left the room`);
+              this.broadcastState();
+              return;
+          }
+          game.setAutoPlay(seatIndex, true);
+          this.notify('error', `${player.name} 已掉线，由 AI 托管中`);
+      }, DISCONNECT_GRACE_MS);
+  }
+  
+  cancelTakeover(seatIndex: number) {
+      const timer = this.takeoverTimers[seatIndex];
+      if (timer) {
+          this.clock.clearTimeout(timer);
+          this.takeoverTimers[seatIndex] = null;
+      }
+  }
+
   setReady(seatIndex: number, ready: boolean) {
     if (this.players[seatIndex]) {
       this.players[seatIndex]!.isReady = ready;
@@ -286,19 +631,25 @@ class Room {
       }
   }
   
-  forceStart(seatIndex: number) {
+  forceStart(seatIndex: number, seed?: number) {
       if (seatIndex !== 0) return; // Only host can force start
       
+      // A seed replays a reported deal; must be a 32-bit unsigned integer
+      if (seed !== undefined && seed !== null && !(Number.isInteger(seed) && seed >= 0 && seed < 4294967296)) {
+          this.players[seatIndex]?.socket?.emit('error', '无效的随机种子');
+          return;
+      }
+      
       // Don't allow starting if a match is already in progress
       if (this.match && this.match.matchWinner === null) {
           return; // Match is still ongoing
       }
       
       // Start new match
-      this.startGame();
+      this.startGame(seed ?? undefined);
   }
 
-  startGame() {
+  startGame(seed?: number) {
       // Fill empty slots with bots
       const gamePlayers: Player[] = this.players.map((p, index) => {
           if (p) return p;
@@ -316,18 +667,41 @@ class Room {
       this.broadcastState();
 
       // Start a new match (full game series from 2 to A)
-      this.match = new Match(this.io, this.id, gamePlayers, this.gameMode);
+      this.match = new Match(this.gameTransport(), this.id, gamePlayers, this.gameMode, getRuleSet(this.ruleSetId), this.turnTimeLimit, seed);
+      this.attachMatch(this.match);
       this.match.startMatch();
       
-      this.io.to(this.id).emit('matchStarted');
+      this.notify('matchStarted');
+  }
+
+  // Room notices (not game information) for players and spectators alike
+  private notify(event: string, ...args: any[]) {
+      this.io.to([this.id, this.spectatorRoom]).emit(event, ...args);
+  }
+
+  // Match and game events reach the players at once and spectators after the delay
+  private gameTransport(): GameTransport {
+      return {
+          broadcast: (event, ...args) => {
+              this.io.to(this.id).emit(event, ...args);
+              this.spectators.forEach(s => this.sendToSpectator(s, event, ...args));
+          }
+      };
   }
 
   broadcastState() {
-    const playerList = this.players.map(p => p ? { id: p.id, name: p.name, seatIndex: p.seatIndex, isReady: p.isReady, isBot: p.isBot } : null);
-    this.io.to(this.id).emit('roomState', {
+    const playerList = this.players.map(p => p ? { id: p.id, name: p.name, seatIndex: p.seatIndex, isReady: p.isReady, isBot: p.isBot, isDisconnected: p.isDisconnected } : null);
+    this.notify('roomState', {
       roomId: this.id,
       players: playerList,
-      gameMode: this.gameMode
+      gameMode: this.gameMode,
+      ruleSetId: this.ruleSetId,
+      turnTimeLimit: this.turnTimeLimit,
+      waitForContinue: this.waitForContinue,
+      spectators: this.spectators.map(s => s.name),
+      spectatorView: this.spectatorView,
+      spectatorDelay: this.spectatorDelay
     });
+    this.onChange?.();
   }
 }
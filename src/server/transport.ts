@@ -0,0 +1,145 @@
+import { Server } from 'socket.io';
+
+// What Game and Match need from the outside world. socket.io is one adapter;
+// the in-memory ones below run the engine headlessly (tests, simulations).
+
+// Messages to everyone in the room, players and spectators alike
+export interface GameTransport {
+  broadcast(event: string, ...args: any[]): void;
+}
+
+// One player's connection: private messages out, actions in (a socket.io Socket fits as is)
+export interface PlayerChannel {
+  emit(event: string, ...args: any[]): void;
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeAllListeners(event: string): void;
+}
+
+export type TimerHandle = unknown;
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as NodeJS.Timeout)
+};
+
+export function socketTransport(io: Server, roomId: string): GameTransport {
+  return {
+    broadcast: (event, ...args) => io.to(roomId).emit(event, ...args)
+  };
+}
+
+export interface RecordedEvent {
+  event: string;
+  args: any[];
+}
+
+// Keeps every broadcast so a test can look at what the room was told
+export class MemoryTransport implements GameTransport {
+  events: RecordedEvent[] = [];
+
+  broadcast(event: string, ...args: any[]) {
+    this.events.push({ event, args });
+  }
+}
+
+// A player connection with no network: `received` is what the client would see,
+// send() delivers an action as if the client had emitted it
+export class MemoryChannel implements PlayerChannel {
+  received: RecordedEvent[] = [];
+  private listeners = new Map<string, ((...args: any[]) => void)[]>();
+
+  emit(event: string, ...args: any[]) {
+    this.received.push({ event, args });
+  }
+
+  on(event: string, listener: (...args: any[]) => void) {
+    this.listeners.set(event, [...(this.listeners.get(event) || []), listener]);
+  }
+
+  removeAllListeners(event: string) {
+    this.listeners.delete(event);
+  }
+
+  send(event: string, ...args: any[]) {
+    (this.listeners.get(event) || []).forEach(listener => listener(...args));
+  }
+
+  // Last payload of `event` sent to this player
+  last(event: string): any {
+    for (let i = this.received.length - 1; i >= 0; i--) {
+      if (this.received[i].event === event) return this.received[i].args[0];
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Virtual time: timers only fire when the clock is advanced, in due order
+ * (ties in the order they were set). Bot turns and turn limits then run
+ * instantly and the same way every time.
+ */
+export class ManualClock implements Clock {
+  private time: number;
+  private nextId = 1;
+  private timers = new Map<number, { at: number, callback: () => void }>();
+
+  constructor(start: number = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + Math.max(0, ms || 0), callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle) {
+    this.timers.delete(handle as number);
+  }
+
+  get pending(): number {
+    return this.timers.size;
+  }
+
+  // Move time forward by `ms`, firing every timer that falls due on the way
+  advance(ms: number) {
+    const end = this.time + ms;
+    while (this.fireNext(end)) { /* keep going */ }
+    this.time = end;
+  }
+
+  // Fire timers until none are left or `until` says stop; returns how many fired
+  run(until: () => boolean = () => false, limit: number = 100000): number {
+    let fired = 0;
+    while (fired < limit && !until() && this.fireNext(Infinity)) fired++;
+    return fired;
+  }
+
+  private fireNext(end: number): boolean {
+    let nextId: number | null = null;
+    let nextAt = Infinity;
+    this.timers.forEach((timer, id) => {
+      if (timer.at < nextAt) {
+        nextAt = timer.at;
+        nextId = id;
+      }
+    });
+    if (nextId === null || nextAt > end) return false;
+    const { callback } = this.timers.get(nextId)!;
+    this.timers.delete(nextId);
+    this.time = Math.max(this.time, nextAt);
+    callback();
+    return true;
+  }
+}
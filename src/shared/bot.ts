@@ -1,16 +1,22 @@
-import { getHandType, compareHands, sortCards, getLogicValue, isConsecutive } from './rules';
+import { sortCards, getLogicValue, getHandType, enumerateLegalMoves, findStraightFlushes, getTributeCard, getReturnTributeCandidates } from './rules';
 import { Rank, Card, Hand, HandType } from './types';
+import { RuleSet, DEFAULT_RULE_SET } from './ruleset';
+import { decomposeHand } from './solver';
 
 export class Bot {
   cards: Card[];
   level: number;
+  rules: RuleSet;
 
-  constructor(cards: Card[], level: number) {
+  constructor(cards: Card[], level: number, rules: RuleSet = DEFAULT_RULE_SET) {
     this.cards = sortCards(cards, level); // Sorted by logic value desc
     this.level = level;
+    this.rules = rules;
   }
 
-  decideMove(target: Hand | null): Card[] | null {
+  // The play with the reading the bot chose (wilds can make the same cards more
+  // than one hand), or null to pass
+  decideMove(target: Hand | null): Hand | null {
     // Safety check: No cards means no move
     if (this.cards.length === 0) {
         console.log('[Bot] No cards left, returning null');
@@ -19,29 +25,13 @@ export class Bot {
     
     if (!target) {
       // Free play - MUST return something (cannot pass on free turn)
-      
-      // Priority:
-      // 1. Straight (5) or Tube (6) or Plate (6) - long hands first
-      // 2. Trips with Pair (5)
-      // 3. Trips (3)
-      // 4. Pair (2)
-      // 5. Single (1)
-      
-      // Try Full House
-      const trips = this.getGroups(3);
-      if (trips.length > 0) {
-          // Find a pair for Full House
-          const pair = this.findPairExcluding(trips[0]);
-          if (pair) return [...trips[0], ...pair];
-          return trips[0]; // Or just Trips
-      }
-      
-      const pairs = this.getGroups(2);
-      if (pairs.length > 0) return pairs[0]; // Smallest pair
+      // Split the hand into the fewest plays and lead with the cheapest one,
+      // keeping bombs for last
+      const { plays } = decomposeHand(this.cards, this.level);
+      if (plays.length > 0) return plays[0];
       
       // Last resort: play smallest single card
-      // This handles both 1 card left and multiple different single cards
-      return [this.cards[this.cards.length - 1]];
+      return this.smallestSingle();
     }
 
     // Must beat target
@@ -58,51 +48,45 @@ export class Bot {
     return null; // Pass
   }
 
-  findBeat(target: Hand): Card[] | null {
-      // Iterate from smallest (end of sorted array) to largest
-      if (target.type === HandType.Single) {
-          for (let i = this.cards.length - 1; i >= 0; i--) {
-              const c = this.cards[i];
-              if (getLogicValue(c.rank, this.level) > target.value) return [c];
-          }
-      }
-      
-      if (target.type === HandType.Pair) {
-          const pairs = this.getGroups(2); // Smallest first
-          for (const pair of pairs) {
-               const val = getLogicValue(pair[0].rank, this.level);
-               if (val > target.value) return pair;
-          }
-      }
-      
-      if (target.type === HandType.Trips) {
-          const trips = this.getGroups(3);
-           for (const t of trips) {
-               const val = getLogicValue(t[0].rank, this.level);
-               if (val > target.value) return t;
-          }
-      }
-      
-      if (target.type === HandType.TripsWithPair) {
-          const trips = this.getGroups(3);
-          for (const t of trips) {
-              const tVal = getLogicValue(t[0].rank, this.level);
-              if (tVal > target.value) {
-                  const pair = this.findPairExcluding(t);
-                  if (pair) return [...t, ...pair];
-              }
-          }
-      }
-      
-      // Basic Straight Logic (5 cards)
-      if (target.type === HandType.Straight) {
-          // Very simple: Check all 5-card windows in unique ranks
-          // Filter non-wilds, unique ranks
-          // Complexity high with Level Card wilds.
-          // Fallback: Pass on straights unless strict match found?
-      }
-      
-      return null;
+  smallestSingle(): Hand {
+      return getHandType([this.cards[this.cards.length - 1]], this.level)!;
+  }
+
+  findBeat(target: Hand): Hand | null {
+      // Same-type plays only (bombs are handled by findBomb), cheapest first
+      const moves = enumerateLegalMoves(this.cards, target, this.level, this.rules)
+          .filter(m => m.type === target.type);
+      if (moves.length === 0) return null;
+      
+      // Save wild cards unless they are the only way to beat the target
+      const natural = moves.find(m => !m.cards.some(c => c.isWild));
+      return natural || moves[0];
+  }
+  
+  chooseTributeCard(): Card {
+      return getTributeCard(this.cards, this.level) || this.cards[0];
+  }
+  
+  chooseReturnCard(): Card {
+      // Give away the card that hurts the hand least: keep straight flushes,
+      // then prefer a lone single, then breaking trips, pairs and bombs last;
+      // the smallest such card otherwise
+      const sfIds = new Set<string>();
+      findStraightFlushes(this.cards, this.level)
+          .filter(sf => !sf.cards.some(c => c.isWild))
+          .forEach(sf => sf.cards.forEach(c => sfIds.add(c.id)));
+      const rankCount = (c: Card) => this.cards.filter(o => o.rank === c.rank).length;
+      const breakCost = (c: Card) => {
+          const count = rankCount(c);
+          return count === 1 ? 0 : count === 3 ? 1 : count === 2 ? 2 : 3;
+      };
+      const cost = (c: Card) => [sfIds.has(c.id) ? 1 : 0, breakCost(c), getLogicValue(c.rank, this.level)];
+      const candidates = getReturnTributeCandidates(this.cards, this.level);
+      return candidates.reduce((best, c) => {
+          const [a, b] = [cost(c), cost(best)];
+          const diff = a.map((v, i) => v - b[i]).find(d => d !== 0) || 0;
+          return diff < 0 ? c : best;
+      });
   }
   
   findPairExcluding(exclude: Card[]): Card[] | null {
@@ -130,36 +114,22 @@ export class Bot {
       return null;
   }
   
-  findBomb(target?: Hand): Card[] | null {
+  findBomb(target?: Hand): Hand | null {
       // 1. Check 4 Kings
       const sj = this.cards.filter(c => c.rank === Rank.SmallJoker);
       const bj = this.cards.filter(c => c.rank === Rank.BigJoker);
-      let kings: Card[] | null = null;
+      let kings: Hand | null = null;
       if (sj.length === 2 && bj.length === 2) {
-          kings = [...sj, ...bj];
+          kings = { type: HandType.FourKings, cards: [...sj, ...bj], value: 999 };
       }
 
-      // 2. Check Straight Flush (SF)
-      // Hard to detect generic SF. 
-      // Simplified: Check if we have 5 consecutive same suit.
-      // Logic: Group by suit, check consecutive.
-      const sfs: { cards: Card[], value: number }[] = [];
-      const suits = [0,1,2,3]; // Spades, Hearts, Clubs, Diamonds
-      for (const s of suits) {
-          const suitCards = this.cards.filter(c => c.suit === s && !c.isWild && c.rank <= Rank.Ace); // Ignore wild/joker for natural SF
-          // Sort by rank
-          suitCards.sort((a,b) => a.rank - b.rank);
-          // Check windows of 5
-          for(let i=0; i<=suitCards.length-5; i++) {
-              const window = suitCards.slice(i, i+5);
-              const ranks = window.map(c => c.rank);
-              if (isConsecutive(ranks)) {
-                  sfs.push({ cards: window, value: ranks[4] }); // Top value
-              }
-          }
-      }
-      // Sort SFs by value ascending
-      sfs.sort((a,b) => a.value - b.value);
+      // 2. Check Straight Flush (SF): natural ones first so wilds are kept,
+      // each group sorted by value ascending
+      const allSfs = findStraightFlushes(this.cards, this.level);
+      const sfs = [
+          ...allSfs.filter(sf => !sf.cards.some(c => c.isWild)),
+          ...allSfs.filter(sf => sf.cards.some(c => c.isWild))
+      ];
 
       // 3. Normal Bombs (4+ cards)
       const bombs = this.getBombs(); // Smallest first
@@ -167,8 +137,8 @@ export class Bot {
       // Comparison Logic
       if (!target) {
           // Play smallest bomb?
-          if (bombs.length > 0) return bombs[0].cards;
-          if (sfs.length > 0) return sfs[0].cards;
+          if (bombs.length > 0) return bombs[0];
+          if (sfs.length > 0) return sfs[0];
           if (kings) return kings;
           return null;
       }
@@ -180,8 +150,8 @@ export class Bot {
       
       // If target is normal hand (not bomb family)
       if (!targetIsBomb && !targetIsSF && !targetIsKings) {
-          if (bombs.length > 0) return bombs[0].cards;
-          if (sfs.length > 0) return sfs[0].cards;
+          if (bombs.length > 0) return bombs[0];
+          if (sfs.length > 0) return sfs[0];
           if (kings) return kings;
           return null;
       }
@@ -193,18 +163,11 @@ export class Bot {
           // Can beat with bigger SF or 4 Kings
           const targetVal = target.value;
           const biggerSF = sfs.find(sf => sf.value > targetVal);
-          if (biggerSF) return biggerSF.cards;
+          if (biggerSF) return biggerSF;
           if (kings) return kings;
-          // Also 6+ bomb beats SF? Rules vary. 
-          // Standard: 4 Kings > 6+ Bomb > SF > 5 Bomb > 4 Bomb.
-          // Wait: SF is usually just below 4 Kings or below 6 Bomb?
-          // Rules: 4 Kings > 6+ > SF > 5 > 4.
-          // Or 4 Kings > SF > 6+ ?
-          // Default: 4 Kings > 6+ > SF > 5 > 4.
-          // Let's assume SF beats 5 Bomb.
-          // Find Bomb >= 6
-          const bigBomb = bombs.find(b => b.cards.length >= 6);
-          if (bigBomb) return bigBomb.cards;
+          // Bombs larger than the rule set's straight flush slot beat it
+          const bigBomb = bombs.find(b => b.cards.length > this.rules.straightFlushBombSize);
+          if (bigBomb) return bigBomb;
           return null;
       }
       
@@ -218,13 +181,13 @@ export class Bot {
           for (const b of bombs) {
               const bCount = b.cards.length;
               const bVal = b.value;
-              if (bCount > tCount) return b.cards;
-              if (bCount === tCount && bVal > tVal) return b.cards;
+              if (bCount > tCount) return b;
+              if (bCount === tCount && bVal > tVal) return b;
           }
           
-          // If 5 bomb or less, SF beats it
-          if (tCount <= 5) {
-              if (sfs.length > 0) return sfs[0].cards;
+          // SF beats bombs below its slot in the rule set
+          if (tCount < this.rules.straightFlushBombSize) {
+              if (sfs.length > 0) return sfs[0];
           }
           
           if (kings) return kings;
@@ -248,8 +211,8 @@ export class Bot {
       return groups.reverse(); // Smallest first
   }
   
-  getBombs(): { cards: Card[], value: number }[] {
+  getBombs(): Hand[] {
       const groups = this.getGroups(4);
-      return groups.map(g => ({ cards: g, value: getLogicValue(g[0].rank, this.level) }));
+      return groups.map(g => ({ type: HandType.Bomb, cards: g, value: getLogicValue(g[0].rank, this.level), bombCount: g.length }));
   }
 }
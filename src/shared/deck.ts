@@ -1,4 +1,5 @@
 import { Card, Rank, Suit } from './types';
+import { Rng } from './random';
 
 export function createDeck(): Card[] {
   const cards: Card[] = [];
@@ -28,9 +29,9 @@ export function createDeck(): Card[] {
   return cards;
 }
 
-export function shuffleDeck(cards: Card[]): Card[] {
+export function shuffleDeck(cards: Card[], rng: Rng = Math.random): Card[] {
   for (let i = cards.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [cards[i], cards[j]] = [cards[j], cards[i]];
   }
   return cards;
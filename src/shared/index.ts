@@ -1,4 +1,11 @@
 export * from './types';
 export * from './deck';
+export * from './random';
 export * from './rules';
+export * from './ruleset';
+export * from './notation';
+export * from './solver';
 export * from './bot';
+export * from './replay';
+export * from './phase';
+export * from './progression';
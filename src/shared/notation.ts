@@ -0,0 +1,50 @@
+import { Card, Rank, Suit } from './types';
+import { updateCardProperties } from './deck';
+
+// Compact card notation, e.g. "H5 H6 H7 H8 H9", "SJ BJ", "*"
+//   Suits: S (♠), H (♥), C (♣), D (♦)
+//   Ranks: 2-10, J, Q, K, A (or numeric 2-14)
+//   SJ / BJ: small / big joker (write the jack of spades as S11)
+//   *: the heart level card (wild)
+
+const SUIT_LETTERS: { [key: string]: Suit } = { S: Suit.Spades, H: Suit.Hearts, C: Suit.Clubs, D: Suit.Diamonds };
+const RANK_LETTERS: { [key: string]: Rank } = { J: Rank.Jack, Q: Rank.Queen, K: Rank.King, A: Rank.Ace };
+
+function parseCard(token: string, level: number, index: number): Card {
+  const id = `n${index}-${token}`;
+  if (token === '*') return { suit: Suit.Hearts, rank: level as Rank, id };
+  if (token === 'SJ') return { suit: Suit.Joker, rank: Rank.SmallJoker, id };
+  if (token === 'BJ') return { suit: Suit.Joker, rank: Rank.BigJoker, id };
+  
+  const suit = SUIT_LETTERS[token[0]];
+  const rankText = token.slice(1);
+  const rank = RANK_LETTERS[rankText] ?? Number(rankText);
+  if (suit === undefined || !(rank >= Rank.Two && rank <= Rank.Ace)) {
+    throw new Error(`Invalid card notation: "${token}"`);
+  }
+  return { suit, rank, id };
+}
+
+/**
+ * Parse space-separated card notation into cards for the given level
+ * (level card and wild flags are set). Ids are unique within one call.
+ */
+export function parseCards(notation: string, level: number): Card[] {
+  const tokens = notation.trim().split(/\s+/).filter(t => t.length > 0);
+  return updateCardProperties(tokens.map((t, i) => parseCard(t.toUpperCase(), level, i)), level);
+}
+
+/**
+ * Format cards back into notation (wilds are written as "*")
+ */
+export function formatCards(cards: Card[]): string {
+  const suitLetters = ['S', 'H', 'C', 'D'];
+  const rankLetters: { [rank: number]: string } = { 11: 'J', 12: 'Q', 13: 'K', 14: 'A' };
+  return cards.map(c => {
+    if (c.isWild) return '*';
+    if (c.rank === Rank.SmallJoker) return 'SJ';
+    if (c.rank === Rank.BigJoker) return 'BJ';
+    if (c.suit === Suit.Spades && c.rank === Rank.Jack) return 'S11';
+    return `${suitLetters[c.suit]}${rankLetters[c.rank] || c.rank}`;
+  }).join(' ');
+}
@@ -0,0 +1,100 @@
+// Game phases and the only ways to move between them
+
+export enum GamePhase {
+  Waiting = 'Waiting',
+  Dealing = 'Dealing',
+  Tribute = 'Tribute',
+  ReturnTribute = 'ReturnTribute',
+  Playing = 'Playing',
+  Score = 'Score'
+}
+
+// Dealing goes straight to Playing for the first game, a tie (house rules) or 抗贡.
+// Score -> Dealing is a restart within the same Game instance.
+export const PHASE_TRANSITIONS: Record<GamePhase, GamePhase[]> = {
+  [GamePhase.Waiting]: [GamePhase.Dealing],
+  [GamePhase.Dealing]: [GamePhase.Tribute, GamePhase.Playing],
+  [GamePhase.Tribute]: [GamePhase.ReturnTribute],
+  [GamePhase.ReturnTribute]: [GamePhase.Playing],
+  [GamePhase.Playing]: [GamePhase.Score],
+  [GamePhase.Score]: [GamePhase.Dealing]
+};
+
+// Player actions and the phase each one is accepted in
+export type PhaseAction = 'play' | 'pass' | 'useSkill' | 'tribute' | 'returnTribute';
+
+export const PHASE_ACTIONS: Record<PhaseAction, GamePhase> = {
+  play: GamePhase.Playing,
+  pass: GamePhase.Playing,
+  useSkill: GamePhase.Playing,
+  tribute: GamePhase.Tribute,
+  returnTribute: GamePhase.ReturnTribute
+};
+
+export const PHASE_NAMES: Record<GamePhase, string> = {
+  [GamePhase.Waiting]: '等待',
+  [GamePhase.Dealing]: '发牌',
+  [GamePhase.Tribute]: '进贡',
+  [GamePhase.ReturnTribute]: '还贡',
+  [GamePhase.Playing]: '出牌',
+  [GamePhase.Score]: '结算'
+};
+
+export interface PhaseHooks {
+  onEnter?: (from: GamePhase) => void;
+  onExit?: (to: GamePhase) => void;
+}
+
+/**
+ * Holds the current phase and refuses any move not listed in PHASE_TRANSITIONS.
+ * On a move: exit hook of the old phase, then onTransition, then entry hook of
+ * the new one. An entry hook may move on again (e.g. Tribute when every payer
+ * is a bot); the nested move starts from the phase just entered.
+ */
+export class PhaseMachine {
+  private phase: GamePhase;
+  private hooks: Partial<Record<GamePhase, PhaseHooks>>;
+  private onTransition?: (from: GamePhase, to: GamePhase) => void;
+
+  constructor(
+    initial: GamePhase = GamePhase.Waiting,
+    hooks: Partial<Record<GamePhase, PhaseHooks>> = {},
+    onTransition?: (from: GamePhase, to: GamePhase) => void
+  ) {
+    this.phase = initial;
+    this.hooks = hooks;
+    this.onTransition = onTransition;
+  }
+
+  get current(): GamePhase {
+    return this.phase;
+  }
+
+  is(...phases: GamePhase[]): boolean {
+    return phases.includes(this.phase);
+  }
+
+  can(to: GamePhase): boolean {
+    return PHASE_TRANSITIONS[this.phase].includes(to);
+  }
+
+  allows(action: PhaseAction): boolean {
+    return PHASE_ACTIONS[action] === this.phase;
+  }
+
+  transition(to: GamePhase) {
+    const from = this.phase;
+    if (!this.can(to)) {
+      throw new Error(`Illegal phase transition: ${from} -> ${to}`);
+    }
+    this.hooks[from]?.onExit?.(to);
+    this.phase = to;
+    this.onTransition?.(from, to);
+    this.hooks[to]?.onEnter?.(from);
+  }
+
+  // Jump to a saved phase without running hooks (restoring a snapshot)
+  restore(phase: GamePhase) {
+    this.phase = phase;
+  }
+}
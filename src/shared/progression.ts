@@ -0,0 +1,129 @@
+// Level, banker and tribute order between games. Pure functions: Match applies
+// them after every game and Game only reads the result.
+
+import { Rank, MAX_A_ATTEMPTS, FinishPattern, FINISH_PATTERN_NAMES } from './types';
+import { RuleSet } from './ruleset';
+import { getLogicValue } from './rules';
+
+// Team 0 = seats 0 & 2, team 1 = seats 1 & 3
+export const teamOf = (seat: number) => seat % 2;
+export const isSameTeam = (a: number, b: number) => teamOf(a) === teamOf(b);
+
+// How the winning team finished, from the finishing order (头游 first)
+export function finishPattern(winners: number[]): FinishPattern {
+  const [p1, p2, p3] = winners;
+  if (isSameTeam(p1, p2)) return 'double'; // 1st & 2nd (双扣)
+  if (isSameTeam(p1, p3)) return 'single'; // 1st & 3rd (单扣)
+  return 'tie';                            // 1st & 4th (保级)
+}
+
+export function calculateLevelUp(winners: number[], ruleSet: RuleSet): { winningTeam: number, pattern: FinishPattern, levelIncrease: number } {
+  const pattern = finishPattern(winners);
+  return { winningTeam: teamOf(winners[0]), pattern, levelIncrease: ruleSet.levelSteps[pattern] };
+}
+
+// What carries over from one game to the next
+export interface LevelState {
+  teamLevels: { [key: number]: number };
+  activeTeam: number; // Banker (庄家)
+  aAttempts: { [key: number]: number }; // Failed 过A attempts per team
+}
+
+export interface LevelOutcome extends LevelState {
+  winningTeam: number;
+  pattern: FinishPattern;
+  levelIncrease: number;
+  matchWinner: number | null; // Set when the banker passed A
+  failedA: boolean;           // The banker was at A and did not pass
+  fellBack: boolean;          // ...for the last allowed time, and is back at 2
+}
+
+/**
+ * Levels, banker and 过A attempts after a finished game.
+ * The winning team goes up by the rule set's step (capped at A) and becomes
+ * banker. The banker at A passes by winning without its partner finishing
+ * last; each miss is a failed attempt and the last allowed one sends the team
+ * back to 2.
+ */
+export function applyGameResult(state: LevelState, winners: number[], ruleSet: RuleSet): LevelOutcome {
+  const { winningTeam, pattern, levelIncrease } = calculateLevelUp(winners, ruleSet);
+  const bankerTeam = state.activeTeam;
+  const teamLevels = { ...state.teamLevels };
+  const aAttempts = { 0: 0, 1: 0, ...state.aAttempts };
+  const outcome: LevelOutcome = { winningTeam, pattern, levelIncrease, teamLevels, aAttempts, activeTeam: winningTeam, matchWinner: null, failedA: false, fellBack: false };
+
+  if (teamLevels[bankerTeam] === Rank.Ace) {
+    if (winningTeam === bankerTeam && !isSameTeam(winners[3], bankerTeam)) {
+      return { ...outcome, activeTeam: bankerTeam, matchWinner: bankerTeam };
+    }
+    aAttempts[bankerTeam]++;
+    outcome.failedA = true;
+    outcome.fellBack = aAttempts[bankerTeam] >= MAX_A_ATTEMPTS;
+  }
+
+  teamLevels[winningTeam] = Math.min(teamLevels[winningTeam] + levelIncrease, Rank.Ace);
+
+  if (outcome.fellBack) {
+    teamLevels[bankerTeam] = 2;
+    aAttempts[bankerTeam] = 0;
+    // A team sent back to 2 gives up the deal, even after a 1-4 win
+    outcome.activeTeam = bankerTeam === 0 ? 1 : 0;
+  }
+  return outcome;
+}
+
+export type TributeOrder = { from: number, to: number }[];
+
+// Who pays whom before the next game (last place first); empty when nobody pays
+export function tributeOrder(prevWinners: number[], ruleSet: RuleSet): TributeOrder {
+  if (prevWinners.length < 4) return [];
+  const [p1, p2, p3, p4] = prevWinners;
+  switch (finishPattern(prevWinners)) {
+    case 'double':
+      return [{ from: p4, to: p1 }, { from: p3, to: p2 }];
+    case 'single':
+      return [{ from: p4, to: p1 }];
+    case 'tie':
+      // House rules skip the tribute when 1st and 4th are partners
+      return ruleSet.tributeOnTie ? [{ from: p4, to: p1 }] : [];
+  }
+}
+
+// The payer of the largest tribute leads after the return; on equal cards the
+// one listed first (the last place) keeps the lead
+export function tributeLeader(paid: { from: number, card: { rank: number } }[], level: number): number {
+  let maxVal = -1;
+  let leader = -1;
+  paid.forEach(t => {
+    const val = getLogicValue(t.card.rank, level);
+    if (val > maxVal) {
+      maxVal = val;
+      leader = t.from;
+    }
+  });
+  return leader;
+}
+
+export const teamName = (team: number) => team === 0 ? 'Team 0 (Seat 0, 2)' : 'Team 1 (Seat 1, 3)';
+
+// History lines for a level outcome, in the order they happened
+export function describeLevelOutcome(before: LevelState, outcome: LevelOutcome): string[] {
+  const lines: string[] = [];
+  const winner = outcome.winningTeam;
+  if (outcome.matchWinner !== null) {
+    return [`${teamName(winner)} 过A成功，赢得整场对局`];
+  }
+  if (outcome.failedA) {
+    lines.push(`${teamName(before.activeTeam)} 过A失败 (${outcome.fellBack ? MAX_A_ATTEMPTS : outcome.aAttempts[before.activeTeam]}/${MAX_A_ATTEMPTS})`);
+  }
+  // Level reached by this game, before any fall back
+  const reached = Math.min(before.teamLevels[winner] + outcome.levelIncrease, Rank.Ace);
+  lines.push(`${teamName(winner)} ${FINISH_PATTERN_NAMES[outcome.pattern]}，等级 ${before.teamLevels[winner]} → ${reached}`);
+  if (outcome.fellBack) {
+    lines.push(`${teamName(before.activeTeam)} ${MAX_A_ATTEMPTS}次过A失败，退回打2`);
+  }
+  if (outcome.activeTeam !== before.activeTeam) {
+    lines.push(`庄家换为 ${teamName(outcome.activeTeam)}`);
+  }
+  return lines;
+}
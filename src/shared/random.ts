@@ -0,0 +1,37 @@
+// Seedable randomness so a deal (and everything after it) can be replayed
+
+// Returns a float in [0, 1), like Math.random
+export type Rng = () => number;
+
+// A seeded generator whose position can be saved; createRng(rng.state()) continues the sequence
+export interface SeededRng extends Rng {
+  state(): number;
+}
+
+// mulberry32: small, fast and good enough for shuffling cards
+export function createRng(seed: number): SeededRng {
+  let state = seed >>> 0;
+  const rng = (() => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }) as SeededRng;
+  rng.state = () => state;
+  return rng;
+}
+
+// Fresh 32-bit seed, for when no seed is given
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Next 32-bit seed drawn from an existing generator (e.g. one per game in a match)
+export function nextSeed(rng: Rng): number {
+  return Math.floor(rng() * 4294967296);
+}
+
+export function randomInt(rng: Rng, max: number): number {
+  return Math.floor(rng() * max);
+}
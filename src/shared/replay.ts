@@ -0,0 +1,44 @@
+import { Card, GameReplay, ReplayAction } from './types';
+
+// FNV-1a over the sorted card ids of each seat; order within a hand does not matter
+export function hashHands(hands: Card[][]): string {
+  const text = hands.map(h => h.map(c => c.id).sort().join(',')).join('|');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+// Card movements between two snapshots of the four hands
+export function diffHands(before: Card[][], after: Card[][]): Pick<ReplayAction, 'removed' | 'added'> {
+  const removed: ReplayAction['removed'] = {};
+  const added: ReplayAction['added'] = {};
+  after.forEach((hand, seat) => {
+    const prev = before[seat] || [];
+    const prevIds = new Set(prev.map(c => c.id));
+    const nowIds = new Set(hand.map(c => c.id));
+    const gone = prev.filter(c => !nowIds.has(c.id)).map(c => c.id);
+    const gained = hand.filter(c => !prevIds.has(c.id));
+    if (gone.length > 0) removed[seat] = gone;
+    if (gained.length > 0) added[seat] = gained;
+  });
+  return { removed, added };
+}
+
+export function applyReplayAction(hands: Card[][], action: ReplayAction): Card[][] {
+  return hands.map((hand, seat) => {
+    const gone = new Set(action.removed[seat] || []);
+    return [...hand.filter(c => !gone.has(c.id)), ...(action.added[seat] || [])];
+  });
+}
+
+// Hands after the first `step` actions (0 = the initial deal)
+export function replayHandsAt(replay: GameReplay, step: number): Card[][] {
+  let hands = replay.initialHands.map(h => [...h]);
+  for (let i = 0; i < step && i < replay.actions.length; i++) {
+    hands = applyReplayAction(hands, replay.actions[i]);
+  }
+  return hands;
+}
@@ -1,4 +1,5 @@
 import { Card, Hand, HandType, HandInterpretation, Rank, Suit } from './types';
+import { RuleSet, DEFAULT_RULE_SET } from './ruleset';
 
 // Get logical value for sorting/comparison
 // Level cards are higher than Ace but lower than Jokers
@@ -37,6 +38,46 @@ export function isConsecutive(values: number[]): boolean {
     return true;
 }
 
+/**
+ * Find the highest value of a run of `groupCount` consecutive ranks with
+ * `groupSize` cards each (e.g. 1x5 for a straight, 2x3 for a tube, 3x2 for a
+ * plate) that the cards can form, using wilds to fill missing cards. Ace may
+ * sit low (A-2-3) or high (Q-K-A). Level cards sit at their natural rank here,
+ * not at 19 as they do for singles, pairs, trips and bombs. The value is the
+ * top rank of the run; returns -1 if none fits.
+ */
+function findSequenceValue(nonWilds: Card[], wildCount: number, groupSize: number, groupCount: number): number {
+    if (nonWilds.some(c => c.rank > Rank.Ace)) return -1;
+    
+    const rankCounts = new Map<number, number>();
+    nonWilds.forEach(c => rankCounts.set(c.rank, (rankCounts.get(c.rank) || 0) + 1));
+    
+    for (const run of getRankRuns(groupCount)) {
+        if (Array.from(rankCounts.keys()).some(r => !run.includes(r))) continue;
+        if (run.some(r => (rankCounts.get(r) || 0) > groupSize)) continue;
+        const missing = run.reduce((sum, r) => sum + groupSize - (rankCounts.get(r) || 0), 0);
+        if (missing <= wildCount) {
+            return getRunValue(run);
+        }
+    }
+    return -1;
+}
+
+// All runs of `length` consecutive ranks, highest first; the A-low run (A-2-3...) comes last
+export function getRankRuns(length: number): number[][] {
+    const runs: number[][] = [];
+    for (let top = Rank.Ace; top - length + 1 >= Rank.Two; top--) {
+        runs.push(Array.from({ length }, (_, i) => top - i));
+    }
+    runs.push([Rank.Ace, ...Array.from({ length: length - 1 }, (_, i) => Rank.Two + i)]);
+    return runs;
+}
+
+// Value of a run is its top rank; in the A-low run the Ace counts as 1
+function getRunValue(run: number[]): number {
+    return run[0] === Rank.Ace && run[1] === Rank.Two ? run[run.length - 1] : run[0];
+}
+
 // Main function to analyze hand
 export function getHandType(cards: Card[], level: number): Hand | null {
   if (cards.length === 0) return null;
@@ -120,41 +161,15 @@ export function getHandType(cards: Card[], level: number): Hand | null {
       }
   }
   
-  // 6. Straight (5 cards)
+  // 6. Straight (5 cards), level cards in their natural position
   if (len === 5) {
-      const ranks = nonWilds.map(c => c.rank === level ? level : c.rank).filter(r => r <= Rank.Ace); 
-      if (!nonWilds.some(c => c.rank > Rank.Ace)) {
-          const uniqueRanks = new Set(ranks);
-          if (uniqueRanks.size === ranks.length) { 
-               if (ranks.length === 0) {
-                   return { type: HandType.Straight, cards, value: 14 }; 
-               }
-               
-               const ranksLowA = ranks.map(r => r === 14 ? 1 : r);
-               let val = -1;
-               const maxR = Math.max(...ranks);
-               const minR = Math.min(...ranks);
-               if (maxR - minR <= 4) {
-                    const top = minR + 4; 
-                    if (top <= 14) val = top;
-               }
-               
-               if (ranks.includes(14)) {
-                    const minL = Math.min(...ranksLowA);
-                    const maxL = Math.max(...ranksLowA);
-                    if (maxL - minL <= 4) {
-                        if (val === -1 || 5 > val) val = 5; 
-                    }
-               }
-
-               if (val !== -1) {
-                   const suits = nonWilds.map(c => c.suit);
-                   if (new Set(suits).size <= 1) {
-                       return { type: HandType.StraightFlush, cards, value: val, bombCount: 5 }; 
-                   }
-                   return { type: HandType.Straight, cards, value: val };
-               }
+      const val = findSequenceValue(nonWilds, wildCount, 1, 5);
+      if (val !== -1) {
+          const suits = nonWilds.map(c => c.suit);
+          if (new Set(suits).size <= 1) {
+              return { type: HandType.StraightFlush, cards, value: val, bombCount: 5 }; 
           }
+          return { type: HandType.Straight, cards, value: val };
       }
   }
   
@@ -170,31 +185,22 @@ export function getHandType(cards: Card[], level: number): Hand | null {
       }
   }
 
-  // 8. Tube (6 cards) - Simplified (Natural)
-  if (len === 6 && wildCount === 0) {
-      const s = [...cards].sort((a,b) => a.rank - b.rank);
-      if (s[0].rank === s[1].rank && s[2].rank === s[3].rank && s[4].rank === s[5].rank) {
-          if (s[2].rank === s[0].rank + 1 && s[4].rank === s[2].rank + 1) {
-               return { type: HandType.Tube, cards, value: s[4].rank }; 
-          }
-          if (s[4].rank === 14 && s[0].rank === 2 && s[2].rank === 3) {
-              return { type: HandType.Tube, cards, value: 3 }; 
-          }
+  // 8. Tube (3 consecutive pairs) / Plate (2 consecutive trips), wilds fill gaps
+  if (len === 6) {
+      const tubeValue = findSequenceValue(nonWilds, wildCount, 2, 3);
+      if (tubeValue !== -1) {
+          return { type: HandType.Tube, cards, value: tubeValue };
       }
-      
-      // Plate (Natural)
-      if (s[0].rank === s[1].rank && s[1].rank === s[2].rank && 
-          s[3].rank === s[4].rank && s[4].rank === s[5].rank) {
-           if (s[3].rank === s[0].rank + 1) {
-               return { type: HandType.Plate, cards, value: s[3].rank };
-           }
+      const plateValue = findSequenceValue(nonWilds, wildCount, 3, 2);
+      if (plateValue !== -1) {
+          return { type: HandType.Plate, cards, value: plateValue };
       }
   }
   
   return null;
 }
 
-export function compareHands(handA: Hand, handB: Hand): number {
+export function compareHands(handA: Hand, handB: Hand, rules: RuleSet = DEFAULT_RULE_SET): number {
     if (handA.type === HandType.FourKings) return 1;
     if (handB.type === HandType.FourKings) return -1;
     
@@ -208,7 +214,7 @@ export function compareHands(handA: Hand, handB: Hand): number {
     // Both Bombs (or SF)
     if (isBombA && isBombB) {
         const getScore = (h: Hand) => {
-            if (h.type === HandType.StraightFlush) return 5.5; // SF beats 5-Bomb, loses to 6-Bomb
+            if (h.type === HandType.StraightFlush) return rules.straightFlushBombSize;
             return h.bombCount!;
         };
         const sA = getScore(handA);
@@ -229,6 +235,28 @@ export function getLargestCard(cards: Card[], level: number): Card {
     return sorted[0]; 
 }
 
+/**
+ * The card a tribute payer must hand over: their largest card, except that the
+ * heart level card (wild) is never paid. Any card of the same value will do.
+ */
+export function getTributeCard(hand: Card[], level: number): Card | undefined {
+    return sortCards(hand.filter(c => !c.isWild), level)[0];
+}
+
+export function isValidTributeCard(card: Card, hand: Card[], level: number): boolean {
+    const required = getTributeCard(hand, level);
+    return !card.isWild && !!required && getLogicValue(card.rank, level) === getLogicValue(required.rank, level);
+}
+
+/**
+ * Cards that may be returned after a tribute: 10 or lower and not a level card.
+ * A hand without such a card may return anything.
+ */
+export function getReturnTributeCandidates(hand: Card[], level: number): Card[] {
+    const allowed = hand.filter(c => c.rank <= Rank.Ten && c.rank !== level);
+    return allowed.length > 0 ? allowed : hand;
+}
+
 /**
  * Generate human-readable description for a hand type
  */
@@ -256,86 +284,329 @@ export function getHandDescription(hand: Hand, level: number): string {
     return desc;
 }
 
+const SUIT_SYMBOLS = ['♠', '♥', '♣', '♦'];
+const RANK_NAMES: { [rank: number]: string } = {
+    11: 'J', 12: 'Q', 13: 'K', 14: 'A', 15: '小王', 16: '大王'
+};
+
+function getRankName(rank: number): string {
+    return RANK_NAMES[rank] || rank.toString();
+}
+
 /**
- * Get all possible hand type interpretations for cards with wild cards
- * Returns multiple interpretations if wild cards can form different valid hands
+ * All straight flushes the cards can form, one per suit and run, weakest
+ * first (ties: fewest wilds first). Level cards sit at their natural rank, as
+ * in every straight; wilds fill the gaps natural cards of the suit leave.
  */
-export function getAllPossibleHandTypes(cards: Card[], level: number): Hand[] {
+export function findStraightFlushes(cards: Card[], level: number): Hand[] {
+    const wilds = cards.filter(c => c.isWild);
+    const results: Hand[] = [];
+    [Suit.Spades, Suit.Hearts, Suit.Clubs, Suit.Diamonds].forEach(suit => {
+        const suitCards = cards.filter(c => c.suit === suit && !c.isWild);
+        getRankRuns(5).forEach(run => {
+            const naturals = run.map(r => suitCards.find(c => c.rank === r)).filter(c => c !== undefined);
+            const missing = run.length - naturals.length;
+            if (missing > wilds.length) return;
+            results.push({ type: HandType.StraightFlush, cards: [...naturals, ...wilds.slice(0, missing)], value: getRunValue(run), bombCount: 5 });
+        });
+    });
+    const wildCount = (h: Hand) => h.cards.filter(c => c.isWild).length;
+    return results.sort((a, b) => a.value - b.value || wildCount(a) - wildCount(b));
+}
+
+// Substitute a wild card with a concrete (natural) card
+function resolveWild(card: Card, rank: Rank, suit: Suit, level: number): Card {
+    return { ...card, rank, suit, isLevelCard: rank === level, isWild: false };
+}
+
+/**
+ * Get every legal interpretation of the cards, with how each wild card is used.
+ * Wild cards are tried as every standard card (2..A in all four suits); readings
+ * that differ only in which wild stands for what (or in a suit that does not
+ * matter) are listed once. A lower reading can still be the right one, e.g. a
+ * straight that must match the length and value the table asks for.
+ */
+export function getHandInterpretations(cards: Card[], level: number): HandInterpretation[] {
     if (cards.length === 0) return [];
     
     const wilds = cards.filter(c => c.isWild);
-    const nonWilds = cards.filter(c => !c.isWild);
+    const defaultHand = getHandType(cards, level);
     
-    // If no wilds, just return the single interpretation
-    if (wilds.length === 0) {
-        const hand = getHandType(cards, level);
-        return hand ? [hand] : [];
+    // If no wilds, just return the single interpretation; wilds on their own are
+    // played as the level cards they are
+    if (wilds.length === 0 || wilds.length === cards.length) {
+        return defaultHand ? [{ hand: defaultHand, description: getHandDescription(defaultHand, level) }] : [];
     }
     
-    const results: Hand[] = [];
-    const len = cards.length;
+    const substitutes: { rank: Rank, suit: Suit }[] = [];
+    for (let rank = Rank.Two; rank <= Rank.Ace; rank++) {
+        for (const suit of [Suit.Spades, Suit.Hearts, Suit.Clubs, Suit.Diamonds]) {
+            substitutes.push({ rank, suit });
+        }
+    }
     
-    // Try different interpretations based on card count and wild count
+    // Distinct readings by type, value and what the wilds stand for
+    const seen = new Map<string, HandInterpretation>();
     
-    // 1. Single (1 card)
-    if (len === 1) {
-        // Wild as level card
-        results.push({ type: HandType.Single, cards, value: 19 });
-        return results;
+    const tryAssignment = (assignment: { rank: Rank, suit: Suit }[]) => {
+        let w = 0;
+        const resolved = cards.map(c => {
+            if (!c.isWild) return c;
+            const sub = assignment[w++];
+            return resolveWild(c, sub.rank, sub.suit, level);
+        });
+        const natural = getHandType(resolved, level);
+        if (!natural) return;
+        
+        // Suits only matter for straight flushes; the wilds are interchangeable
+        const withSuit = natural.type === HandType.StraightFlush;
+        const usageKey = assignment.map(sub => withSuit ? `${sub.rank}${SUIT_SYMBOLS[sub.suit]}` : `${sub.rank}`).sort().join(',');
+        const key = `${natural.type}|${natural.bombCount || 0}|${natural.value}|${usageKey}`;
+        if (seen.has(key)) return;
+        
+        const hand: Hand = { ...natural, cards };
+        const wildUsage: HandInterpretation['wildUsage'] = {};
+        const usageText: string[] = [];
+        wilds.forEach((wild, idx) => {
+            const sub = assignment[idx];
+            wildUsage[wild.id] = withSuit ? { asRank: sub.rank, asSuit: sub.suit } : { asRank: sub.rank };
+            usageText.push(`♥${getRankName(level)} 当 ${withSuit ? SUIT_SYMBOLS[sub.suit] : ''}${getRankName(sub.rank)}`);
+        });
+        seen.set(key, {
+            hand,
+            description: `${getHandDescription(hand, level)} (${usageText.join('、')})`,
+            wildUsage
+        });
+    };
+    
+    const assign = (prefix: { rank: Rank, suit: Suit }[]) => {
+        if (prefix.length === wilds.length) {
+            tryAssignment(prefix);
+            return;
+        }
+        substitutes.forEach(sub => assign([...prefix, sub]));
+    };
+    assign([]);
+    
+    // Highest value first within each shape, and the default reading (what
+    // getHandType picks) ahead of everything else
+    const shape = (h: Hand) => `${h.type}|${h.bombCount || 0}`;
+    const shapes = Array.from(new Set(Array.from(seen.values()).map(r => shape(r.hand))));
+    const results = Array.from(seen.values()).sort((a, b) =>
+        shapes.indexOf(shape(a.hand)) - shapes.indexOf(shape(b.hand)) || b.hand.value - a.hand.value);
+    if (defaultHand) {
+        const idx = results.findIndex(r => shape(r.hand) === shape(defaultHand) && r.hand.value === defaultHand.value);
+        if (idx > 0) results.unshift(...results.splice(idx, 1));
     }
+    return results;
+}
+
+/**
+ * Get all possible hand type interpretations for cards with wild cards
+ * Returns multiple interpretations if wild cards can form different valid hands
+ */
+export function getAllPossibleHandTypes(cards: Card[], level: number): Hand[] {
+    return getHandInterpretations(cards, level).map(i => i.hand);
+}
+
+// Identical cards (same rank and suit, from the two decks) are interchangeable
+function getCardKey(card: Card): string {
+    return card.isWild ? 'W' : `${card.rank}-${card.suit}`;
+}
+
+// All distinct ways to pick k cards, treating identical cards as one choice
+function chooseDistinct(cards: Card[], k: number): Card[][] {
+    const groups = new Map<string, Card[]>();
+    cards.forEach(c => {
+        const key = getCardKey(c);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(c);
+    });
+    const groupList = Array.from(groups.values());
     
-    // 2. Pair (2 cards)
-    if (len === 2) {
-        if (wilds.length === 2) {
-            // Two wilds = pair of level cards
-            results.push({ type: HandType.Pair, cards, value: 19 });
-        } else if (wilds.length === 1) {
-            // One wild + one normal = pair of that normal card
-            const normalValue = getLogicValue(nonWilds[0].rank, level);
-            if (normalValue <= 19) {
-                results.push({ type: HandType.Pair, cards, value: normalValue });
-            }
-        } else {
-            // No wilds, check if natural pair
-            const hand = getHandType(cards, level);
-            if (hand) results.push(hand);
+    const results: Card[][] = [];
+    const pick = (idx: number, remaining: number, acc: Card[]) => {
+        if (remaining === 0) {
+            results.push(acc);
+            return;
         }
+        if (idx >= groupList.length) return;
+        const group = groupList[idx];
+        for (let n = Math.min(remaining, group.length); n >= 0; n--) {
+            pick(idx + 1, remaining - n, [...acc, ...group.slice(0, n)]);
+        }
+    };
+    pick(0, k, []);
+    return results;
+}
+
+/**
+ * Enumerate every distinct legal play from `hand` that beats `target`
+ * (or every play at all when `target` is null, i.e. a free turn).
+ * Covers all hand types, wild card placements and bombs. Plays made of
+ * identical cards are returned once, and each play carries the highest
+ * reading of its type (matching getAllPossibleHandTypes). Results are ordered
+ * cheapest first: normal hands by value, then bombs by strength.
+ */
+export function enumerateLegalMoves(hand: Card[], target: Hand | null, level: number, rules: RuleSet = DEFAULT_RULE_SET): Hand[] {
+    const wilds = hand.filter(c => c.isWild);
+    const byRank = new Map<number, Card[]>();
+    hand.filter(c => !c.isWild).forEach(c => {
+        if (!byRank.has(c.rank)) byRank.set(c.rank, []);
+        byRank.get(c.rank)!.push(c);
+    });
+    const naturalsOf = (rank: number) => byRank.get(rank) || [];
+    
+    const isBombType = (t: HandType) => t === HandType.Bomb || t === HandType.StraightFlush || t === HandType.FourKings;
+    const wants = (t: HandType) => {
+        if (!target) return true;
+        if (isBombType(t)) return true;
+        return !isBombType(target.type) && t === target.type;
+    };
+    
+    // Keep the highest reading per (type, bomb size, cards)
+    const moves = new Map<string, Hand>();
+    const addMove = (candidate: Hand) => {
+        if (target && compareHands(candidate, target, rules) <= 0) return;
+        const cardKeys = candidate.cards.map(getCardKey).sort().join(',');
+        const key = `${candidate.type}|${candidate.bombCount || 0}|${cardKeys}`;
+        const existing = moves.get(key);
+        if (!existing || existing.value < candidate.value) moves.set(key, candidate);
+    };
+    
+    // Fill `size` cards for each rank of `ranks`, sharing the wild budget.
+    // Returns the natural picks per combination plus the number of wilds used.
+    const fillRanks = (ranks: number[], size: number): { naturals: Card[], wildsUsed: number }[] => {
+        const results: { naturals: Card[], wildsUsed: number }[] = [];
+        const fill = (idx: number, naturals: Card[], wildsUsed: number) => {
+            if (idx === ranks.length) {
+                results.push({ naturals, wildsUsed });
+                return;
+            }
+            const available = naturalsOf(ranks[idx]);
+            for (let w = 0; w <= Math.min(size, wilds.length - wildsUsed); w++) {
+                if (size - w > available.length) continue;
+                chooseDistinct(available, size - w).forEach(pick => fill(idx + 1, [...naturals, ...pick], wildsUsed + w));
+            }
+        };
+        fill(0, [], 0);
         return results;
+    };
+    const withWilds = (naturals: Card[], wildsUsed: number) => [...naturals, ...wilds.slice(0, wildsUsed)];
+    
+    const standardRanks: number[] = [];
+    for (let r = Rank.Two; r <= Rank.Ace; r++) standardRanks.push(r);
+    
+    // Single
+    if (wants(HandType.Single)) {
+        chooseDistinct(hand, 1).forEach(cards => {
+            const value = cards[0].isWild ? 19 : getLogicValue(cards[0].rank, level);
+            addMove({ type: HandType.Single, cards, value });
+        });
     }
     
-    // 3. Trips (3 cards)
-    if (len === 3) {
-        if (wilds.length === 3) {
-            results.push({ type: HandType.Trips, cards, value: 19 });
-        } else if (wilds.length >= 1) {
-            // Wilds + normals = trips of the normal card value
-            const normalValues = nonWilds.map(c => getLogicValue(c.rank, level));
-            const uniqueValues = Array.from(new Set(normalValues));
-            if (uniqueValues.length === 1 && uniqueValues[0] <= 19) {
-                results.push({ type: HandType.Trips, cards, value: uniqueValues[0] });
-            }
-        } else {
-            const hand = getHandType(cards, level);
-            if (hand) results.push(hand);
+    // Pair / Trips (jokers pair only with themselves)
+    const sameRankTypes: [HandType, number][] = [[HandType.Pair, 2], [HandType.Trips, 3]];
+    sameRankTypes.forEach(([type, size]) => {
+        if (!wants(type)) return;
+        standardRanks.forEach(rank => {
+            fillRanks([rank], size).forEach(({ naturals, wildsUsed }) => {
+                const value = naturals.length === 0 ? 19 : getLogicValue(rank as Rank, level);
+                addMove({ type, cards: withWilds(naturals, wildsUsed), value });
+            });
+        });
+        if (type === HandType.Pair) {
+            [Rank.SmallJoker, Rank.BigJoker].forEach(rank => {
+                chooseDistinct(naturalsOf(rank), 2).forEach(cards => {
+                    addMove({ type, cards, value: getLogicValue(rank, level) });
+                });
+            });
         }
-        return results;
+    });
+    
+    // Trips with Pair
+    if (wants(HandType.TripsWithPair)) {
+        standardRanks.forEach(tripRank => {
+            standardRanks.forEach(pairRank => {
+                if (pairRank === tripRank) return;
+                fillRanks([tripRank], 3).forEach(trip => {
+                    fillRanks([pairRank], 2).forEach(pair => {
+                        const wildsUsed = trip.wildsUsed + pair.wildsUsed;
+                        if (wildsUsed > wilds.length) return;
+                        const value = trip.naturals.length === 0 ? 19 : getLogicValue(tripRank as Rank, level);
+                        addMove({
+                            type: HandType.TripsWithPair,
+                            cards: withWilds([...trip.naturals, ...pair.naturals], wildsUsed),
+                            value
+                        });
+                    });
+                });
+            });
+        });
     }
     
-    // 4. For longer hands (4+), we need more complex logic
-    // Let's use the existing getHandType as a starting point
-    const defaultHand = getHandType(cards, level);
-    if (defaultHand) {
-        results.push(defaultHand);
+    // Straight / Straight Flush (5 consecutive ranks, level cards in natural position)
+    if (wants(HandType.Straight) || wants(HandType.StraightFlush)) {
+        getRankRuns(5).forEach(run => {
+            const value = getRunValue(run);
+            fillRanks(run, 1).forEach(({ naturals, wildsUsed }) => {
+                const cards = withWilds(naturals, wildsUsed);
+                const sameSuit = new Set(naturals.map(c => c.suit)).size <= 1;
+                if (sameSuit && wants(HandType.StraightFlush)) {
+                    addMove({ type: HandType.StraightFlush, cards, value, bombCount: 5 });
+                }
+                // With a wild in another suit, a same-suit run can also be a plain straight
+                if ((!sameSuit || wildsUsed > 0) && wants(HandType.Straight)) {
+                    addMove({ type: HandType.Straight, cards, value });
+                }
+            });
+        });
     }
     
-    // TODO: Add more sophisticated wild card interpretation for:
-    // - Straights with wilds (wilds can be any card in the sequence)
-    // - Tubes/Plates with wilds
-    // - Bombs with wilds
-    // - Straight Flushes with wilds
+    // Tube (3 consecutive pairs) / Plate (2 consecutive trips)
+    const runTypes: [HandType, number, number][] = [[HandType.Tube, 3, 2], [HandType.Plate, 2, 3]];
+    runTypes.forEach(([type, runLength, size]) => {
+        if (!wants(type)) return;
+        getRankRuns(runLength).forEach(run => {
+            const value = getRunValue(run);
+            fillRanks(run, size).forEach(({ naturals, wildsUsed }) => {
+                addMove({ type, cards: withWilds(naturals, wildsUsed), value });
+            });
+        });
+    });
     
-    // For now, we'll keep it simple and only return the default interpretation
-    // This can be expanded later for more complex scenarios
+    // Bombs (4+ cards of one rank)
+    if (wants(HandType.Bomb)) {
+        standardRanks.forEach(rank => {
+            const available = naturalsOf(rank).length + wilds.length;
+            for (let size = 4; size <= available; size++) {
+                fillRanks([rank], size).forEach(({ naturals, wildsUsed }) => {
+                    addMove({
+                        type: HandType.Bomb,
+                        cards: withWilds(naturals, wildsUsed),
+                        value: getLogicValue(rank as Rank, level),
+                        bombCount: size
+                    });
+                });
+            }
+        });
+    }
     
-    return results;
+    // Four Kings
+    if (wants(HandType.FourKings)) {
+        const smallJokers = naturalsOf(Rank.SmallJoker);
+        const bigJokers = naturalsOf(Rank.BigJoker);
+        if (smallJokers.length === 2 && bigJokers.length === 2) {
+            addMove({ type: HandType.FourKings, cards: [...smallJokers, ...bigJokers], value: 999 });
+        }
+    }
+    
+    return Array.from(moves.values()).sort((a, b) => {
+        const bombA = isBombType(a.type) ? 1 : 0;
+        const bombB = isBombType(b.type) ? 1 : 0;
+        if (bombA !== bombB) return bombA - bombB;
+        if (bombA) return compareHands(a, b, rules);
+        if (a.value !== b.value) return a.value - b.value;
+        return a.cards.length - b.cards.length;
+    });
 }
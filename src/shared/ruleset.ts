@@ -0,0 +1,52 @@
+// Rule variants that differ between official tournament play and house rules.
+// Every choice the engine makes is read from here, but today the two presets
+// differ only in tributeOnTie: our house rules already follow the tournament
+// rules for straight flushes and level steps. Those fields stay configurable so
+// a new preset can change them without touching the engine.
+
+export enum RuleSetId {
+  Official = 'Official',
+  House = 'House'
+}
+
+export interface RuleSet {
+  id: RuleSetId;
+  name: string;
+  description: string; // Shown in the lobby next to the preset
+  // Where a straight flush sits among bombs, on the bomb-size scale
+  // (5.5 = beats a 5-card bomb, loses to a 6-card bomb)
+  straightFlushBombSize: number;
+  // Whether the last place still pays tribute when 1st and 4th are on the same team
+  tributeOnTie: boolean;
+  // Levels gained by the winning team for each finishing pattern
+  levelSteps: {
+    double: number; // 1st & 2nd same team (双扣)
+    single: number; // 1st & 3rd same team (单扣)
+    tie: number;    // 1st & 4th same team (保级)
+  };
+}
+
+export const RULE_SETS: { [key in RuleSetId]: RuleSet } = {
+  [RuleSetId.Official]: {
+    id: RuleSetId.Official,
+    name: '竞赛规则',
+    description: '保级（头游与末游同队）时末游仍向头游进贡',
+    straightFlushBombSize: 5.5,
+    tributeOnTie: true,
+    levelSteps: { double: 3, single: 2, tie: 1 }
+  },
+  [RuleSetId.House]: {
+    id: RuleSetId.House,
+    name: '办公室规则',
+    description: '保级（头游与末游同队）时免贡；其余与竞赛规则相同',
+    straightFlushBombSize: 5.5,
+    tributeOnTie: false,
+    levelSteps: { double: 3, single: 2, tie: 1 }
+  }
+};
+
+export const DEFAULT_RULE_SET: RuleSet = RULE_SETS[RuleSetId.House];
+
+export function getRuleSet(id?: RuleSetId): RuleSet {
+  return (id && RULE_SETS[id]) || DEFAULT_RULE_SET;
+}
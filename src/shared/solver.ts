@@ -0,0 +1,227 @@
+import { Card, Hand, HandType, Rank } from './types';
+import { getHandType, getAllPossibleHandTypes, getRankRuns, enumerateLegalMoves, compareHands } from './rules';
+
+export interface HandDecomposition {
+  plays: Hand[]; // Cheapest first: normal hands by value, then bombs
+  score: number; // Number of plays (手数); lower is better
+}
+
+// A play described by how many cards it takes from each rank (suit-agnostic)
+interface Shape {
+  type: HandType; // How the play is meant to be read (wilds allow more than one)
+  take: { rank: number, count: number }[];
+  wilds: number;
+  isBomb: boolean;
+  isSingle: boolean;
+}
+
+// [plays, singles, -bombs], compared lexicographically
+type Cost = [number, number, number];
+
+interface Plan {
+  cost: Cost;
+  shapes: Shape[];
+}
+
+const STANDARD_RANKS: number[] = [];
+for (let r = Rank.Two; r <= Rank.Ace; r++) STANDARD_RANKS.push(r);
+
+function isCheaper(a: Cost, b: Cost): boolean {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] < b[i];
+  }
+  return false;
+}
+
+function addCost(cost: Cost, shape: Shape): Cost {
+  return [cost[0] + 1, cost[1] + (shape.isSingle ? 1 : 0), cost[2] - (shape.isBomb ? 1 : 0)];
+}
+
+/**
+ * Take `size` cards of one rank given `natural` cards available and `wilds` left.
+ * Naturals are always used first: swapping a wild for a natural of the same rank
+ * between two plays never changes their validity, so this loses no solutions.
+ * Returns [naturalsUsed, wildsUsed] or null if it needs too many wilds or fewer
+ * than `minNatural` naturals.
+ */
+function takeCards(natural: number, wilds: number, size: number, minNatural: number): [number, number] | null {
+  const used = Math.min(natural, size);
+  const w = size - used;
+  if (w > wilds || used < minNatural) return null;
+  return [used, w];
+}
+
+/**
+ * Every play that uses at least one card of `rank` (the lowest rank still in hand),
+ * built from rank counts plus wilds.
+ */
+function shapesForRank(counts: number[], wilds: number, rank: number): Shape[] {
+  const shapes: Shape[] = [];
+  const n = counts[rank];
+  
+  // Jokers: singles, pairs and Four Kings only
+  if (rank > Rank.Ace) {
+    shapes.push({ type: HandType.Single, take: [{ rank, count: 1 }], wilds: 0, isBomb: false, isSingle: true });
+    if (n >= 2) shapes.push({ type: HandType.Pair, take: [{ rank, count: 2 }], wilds: 0, isBomb: false, isSingle: false });
+    if (rank === Rank.SmallJoker && n === 2 && counts[Rank.BigJoker] === 2) {
+      shapes.push({ type: HandType.FourKings, take: [{ rank, count: 2 }, { rank: Rank.BigJoker, count: 2 }], wilds: 0, isBomb: true, isSingle: false });
+    }
+    return shapes;
+  }
+  
+  // Single / Pair / Trips / Bombs of this rank
+  const sameRank = [HandType.Single, HandType.Pair, HandType.Trips];
+  for (let size = 1; size <= n + wilds; size++) {
+    const option = takeCards(n, wilds, size, 1);
+    if (option) {
+      shapes.push({ type: sameRank[size - 1] || HandType.Bomb, take: [{ rank, count: option[0] }], wilds: option[1], isBomb: size >= 4, isSingle: size === 1 });
+    }
+  }
+  
+  // Trips with Pair, with this rank as either the trips or the pair. Trips with
+  // a pair of wilds are not tried: the same five cards are a bomb, which the
+  // tie-break prefers anyway
+  const withPartner = (size: number, otherSize: number, other: number) => {
+    const option = takeCards(n, wilds, size, 1);
+    if (!option) return;
+    const otherOption = takeCards(counts[other], wilds - option[1], otherSize, 1);
+    if (!otherOption) return;
+    const take = [{ rank, count: option[0] }, { rank: other, count: otherOption[0] }];
+    shapes.push({ type: HandType.TripsWithPair, take, wilds: option[1] + otherOption[1], isBomb: false, isSingle: false });
+  };
+  STANDARD_RANKS.forEach(other => {
+    if (other === rank) return;
+    withPartner(3, 2, other);
+    withPartner(2, 3, other);
+  });
+  
+  // Straights (5x1), Tubes (3x2) and Plates (2x3) that include this rank
+  const runShapes: [number, number, HandType][] = [[5, 1, HandType.Straight], [3, 2, HandType.Tube], [2, 3, HandType.Plate]];
+  runShapes.forEach(([length, size, type]) => {
+    getRankRuns(length).filter(run => run.includes(rank)).forEach(run => {
+      const fill = (idx: number, take: { rank: number, count: number }[], wildsUsed: number) => {
+        if (idx === run.length) {
+          shapes.push({ type, take, wilds: wildsUsed, isBomb: false, isSingle: false });
+          return;
+        }
+        const r = run[idx];
+        const option = takeCards(counts[r], wilds - wildsUsed, size, r === rank ? 1 : 0);
+        if (!option) return;
+        fill(idx + 1, option[0] > 0 ? [...take, { rank: r, count: option[0] }] : take, wildsUsed + option[1]);
+      };
+      fill(0, [], 0);
+    });
+  });
+  
+  return shapes;
+}
+
+// Minimum-cost plan for the given rank counts and wilds (memoized)
+function solveCounts(counts: number[], wilds: number, memo: Map<string, Plan>): Plan {
+  const key = `${counts.join(',')}|${wilds}`;
+  const cached = memo.get(key);
+  if (cached) return cached;
+  
+  let plan: Plan;
+  const rank = counts.findIndex(c => c > 0);
+  if (rank === -1) {
+    // Only wilds left: a pair of wilds, or a single one
+    if (wilds === 0) plan = { cost: [0, 0, 0], shapes: [] };
+    else plan = { cost: [1, wilds === 1 ? 1 : 0, 0], shapes: [{ type: wilds === 1 ? HandType.Single : HandType.Pair, take: [], wilds, isBomb: false, isSingle: wilds === 1 }] };
+  } else {
+    plan = { cost: [Infinity, Infinity, Infinity], shapes: [] };
+    for (const shape of shapesForRank(counts, wilds, rank)) {
+      const next = [...counts];
+      shape.take.forEach(t => { next[t.rank] -= t.count; });
+      const rest = solveCounts(next, wilds - shape.wilds, memo);
+      const cost = addCost(rest.cost, shape);
+      if (isCheaper(cost, plan.cost)) {
+        plan = { cost, shapes: [shape, ...rest.shapes] };
+      }
+    }
+  }
+  
+  memo.set(key, plan);
+  return plan;
+}
+
+// The reading the plan meant; a straight that happens to be a flush is kept as one
+function readPlay(cards: Card[], type: HandType, level: number): Hand | null {
+  const readings = getAllPossibleHandTypes(cards, level);
+  const wanted = type === HandType.Straight ? [HandType.StraightFlush, HandType.Straight] : [type];
+  for (const t of wanted) {
+    const hand = readings.find(h => h.type === t);
+    if (hand) return hand;
+  }
+  return getHandType(cards, level);
+}
+
+/**
+ * Split a hand into the fewest plays (手数) using singles, pairs, trips,
+ * trips-with-pair, straights, tubes, plates and bombs, with wild cards
+ * filling gaps. Ties prefer fewer singles, then more bombs. At most one
+ * straight flush is set aside, since suits otherwise do not matter.
+ */
+export function decomposeHand(cards: Card[], level: number): HandDecomposition {
+  const memo = new Map<string, Plan>();
+  
+  const planFor = (pool: Card[]) => {
+    const counts: number[] = new Array(Rank.BigJoker + 1).fill(0);
+    pool.filter(c => !c.isWild).forEach(c => counts[c.rank]++);
+    return solveCounts(counts, pool.filter(c => c.isWild).length, memo);
+  };
+  
+  // Baseline without a straight flush, then try setting one aside
+  let bestPlan = planFor(cards);
+  let bestFlush: Hand | null = null;
+  // Flushes that remove the same ranks leave the same counts, so try each once
+  const flushes = new Map<string, Hand>();
+  enumerateLegalMoves(cards, null, level).filter(m => m.type === HandType.StraightFlush).forEach(m => {
+    const key = m.cards.map(c => c.isWild ? 'W' : c.rank).sort().join(',');
+    if (!flushes.has(key)) flushes.set(key, m);
+  });
+  for (const flush of flushes.values()) {
+    const ids = new Set(flush.cards.map(c => c.id));
+    const plan = planFor(cards.filter(c => !ids.has(c.id)));
+    const cost: Cost = [plan.cost[0] + 1, plan.cost[1], plan.cost[2] - 1];
+    const bestCost: Cost = bestFlush ? [bestPlan.cost[0] + 1, bestPlan.cost[1], bestPlan.cost[2] - 1] : bestPlan.cost;
+    if (isCheaper(cost, bestCost)) {
+      bestPlan = plan;
+      bestFlush = flush;
+    }
+  }
+  
+  // Turn shapes back into concrete cards
+  const flushIds = new Set(bestFlush ? bestFlush.cards.map(c => c.id) : []);
+  const remaining = cards.filter(c => !flushIds.has(c.id));
+  const wildPool = remaining.filter(c => c.isWild);
+  const rankPools = new Map<number, Card[]>();
+  remaining.filter(c => !c.isWild).forEach(c => {
+    if (!rankPools.has(c.rank)) rankPools.set(c.rank, []);
+    rankPools.get(c.rank)!.push(c);
+  });
+  
+  const plays: Hand[] = bestFlush ? [bestFlush] : [];
+  bestPlan.shapes.forEach(shape => {
+    const playCards: Card[] = [];
+    shape.take.forEach(t => playCards.push(...rankPools.get(t.rank)!.splice(0, t.count)));
+    playCards.push(...wildPool.splice(0, shape.wilds));
+    const hand = readPlay(playCards, shape.type, level);
+    if (hand) {
+      plays.push(hand);
+    } else {
+      // Never expected; keep the cards in the plan as singles rather than lose them
+      console.warn(`[Solver] Cannot read planned ${shape.type}, splitting it into singles`);
+      playCards.forEach(c => plays.push(getHandType([c], level)!));
+    }
+  });
+  
+  const isBomb = (h: Hand) => h.type === HandType.Bomb || h.type === HandType.StraightFlush || h.type === HandType.FourKings;
+  plays.sort((a, b) => {
+    if (isBomb(a) !== isBomb(b)) return isBomb(a) ? 1 : -1;
+    if (isBomb(a)) return compareHands(a, b);
+    return a.value - b.value;
+  });
+  
+  return { plays, score: plays.length };
+}
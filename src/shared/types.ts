@@ -59,12 +59,40 @@ export interface HandInterpretation {
   wildUsage?: { [cardId: string]: { asRank: Rank, asSuit?: Suit } }; // How each wild is interpreted
 }
 
+// Error codes sent alongside play and tribute rejections ('error' event, second argument)
+export enum PlayErrorCode {
+  InvalidHand = 'InvalidHand',
+  InvalidInterpretation = 'InvalidInterpretation',
+  NotBigEnough = 'NotBigEnough',
+  CardsNotInHand = 'CardsNotInHand',
+  CannotPass = 'CannotPass',
+  InvalidTribute = 'InvalidTribute',
+  InvalidReturnTribute = 'InvalidReturnTribute'
+}
+
 // Game Mode
 export enum GameMode {
   Normal = 'Normal',
   Skill = 'Skill'
 }
 
+// Turn timer choices in seconds (0 = no limit)
+export const TURN_TIME_LIMITS = [0, 15, 30, 60];
+export const DEFAULT_TURN_TIME_LIMIT = 30;
+
+// 过A: a team at A gets this many games as banker to pass it before dropping back to 2
+export const MAX_A_ATTEMPTS = 3;
+
+// What spectators see of the players' hands (host setting)
+export enum SpectatorView {
+  Hidden = 'Hidden',          // Hand counts only
+  FollowSeat = 'FollowSeat',  // The hand of the seat each spectator follows
+  God = 'God'                 // Every hand
+}
+
+// Spectator feed delay choices in seconds (against ghosting)
+export const SPECTATOR_DELAYS = [0, 10, 30, 60];
+
 // Skill Card Types
 export enum SkillCardType {
   DrawTwo = 'DrawTwo',           // 无中生有：获得随机两张牌
@@ -113,6 +141,83 @@ export interface HistoryEntry {
   details?: any; // Additional data (cards, skill type, etc.)
 }
 
+// Full record of one game, enough to rebuild every hand at every step
+export interface ReplayAction {
+  type: HistoryEventType; // Play, Pass, Tribute (incl. 抗贡), ReturnTribute or SkillUse
+  playerIndex?: number;
+  message: string;
+  details?: any;
+  removed: { [seat: number]: string[] }; // Card ids that left each hand
+  added: { [seat: number]: Card[] };     // Cards that entered each hand
+  stateHash: string;                     // hashHands() of all four hands after the action
+}
+
+export interface GameReplay {
+  version: number;
+  roomId: string;
+  round: number;
+  seed?: number; // Left out for clients until the match is over: it predicts the later deals
+  level: number;
+  teamLevels: { [key: number]: number };
+  activeTeam: number;
+  gameMode: GameMode;
+  ruleSetId: string;
+  players: { name: string, seatIndex: number, isBot: boolean }[];
+  initialHands: Card[][];
+  actions: ReplayAction[];
+  winners: number[];
+  startedAt: number;
+}
+
+export const REPLAY_VERSION = 1;
+
+// How the winning team finished: 1st & 2nd (双扣), 1st & 3rd (单扣) or 1st & 4th (保级)
+export type FinishPattern = 'double' | 'single' | 'tie';
+
+export const FINISH_PATTERN_NAMES: { [key in FinishPattern]: string } = {
+  double: '双扣',
+  single: '单扣',
+  tie: '保级'
+};
+
+// One finished game of a match (summary screen and scoreboard)
+export interface MatchGameResult {
+  game: number; // 1-based within the match
+  level: number; // Level played
+  bankerTeam: number; // Banker during the game
+  winners: number[]; // Finishing order, 头游 first
+  winningTeam: number;
+  pattern: FinishPattern;
+  levelsBefore: { [key: number]: number };
+  levelsAfter: { [key: number]: number };
+  nextBanker: number;
+  aAttempts: { [key: number]: number }; // After this game
+  failedA: boolean;
+  fellBack: boolean;
+  passedA: boolean;
+  nextTribute: { from: number, to: number }[]; // Owed before the next game; 抗贡 may still cancel it
+}
+
+// Sent as `matchState` whenever the match moves on
+export interface MatchState {
+  teamLevels: { [key: number]: number };
+  activeTeam: number;
+  ruleSetId: string;
+  seed?: number; // Only once the match is over; it rebuilds every deal
+  aAttempts: { [key: number]: number };
+  maxAAttempts: number;
+  matchWinner: number | null;
+  inProgress: boolean;
+  games: MatchGameResult[];
+  nextGameAt: number | null; // Server time the next game starts, while waiting between games
+  serverTime: number;
+  paused: boolean;            // Host paused the match
+  waitForContinue: boolean;   // Next game waits for every player's 继续 instead of a countdown
+  awaitingNextGame: boolean;  // Between games
+  continueVotes: number[];    // Seats that clicked 继续
+  continueSeats: number[];    // Seats the next game waits for (connected humans)
+}
+
 // Client-side game history state
 export interface GameHistory {
   entries: HistoryEntry[];
@@ -6,7 +6,7 @@
  */
 
 import { createDeck, shuffleDeck, updateCardProperties } from './src/shared/deck';
-import { getHandType, compareHands, sortCards, getLogicValue } from './src/shared/rules';
+import { compareHands, sortCards, getLogicValue } from './src/shared/rules';
 import { Bot } from './src/shared/bot';
 import { Card, Hand, HandType, Rank } from './src/shared/types';
 
@@ -113,26 +113,24 @@ function playRound(state: GameState): boolean {
     
     // 自由出牌时
     if (!state.lastHand || state.lastHand.playerIndex === seatIndex) {
-        const move = bot.decideMove(null);
-        if (move && move.length > 0) {
-            const handType = getHandType(move, state.level);
-            if (handType) {
-                // 出牌
-                state.hands[seatIndex] = hand.filter(c => !move.some(m => m.id === c.id));
-                state.lastHand = { playerIndex: seatIndex, hand: handType };
-                state.passCount = 0;
-                
-                log(`  Bot ${seatIndex} 出牌: ${handType.type} ${formatCards(move)}`, colors.green);
-                
-                // 检查是否出完
-                if (state.hands[seatIndex].length === 0) {
-                    state.winners.push(seatIndex);
-                    log(`  🏆 Bot ${seatIndex} 出完了！排名 #${state.winners.length}`, colors.yellow);
-                }
-                
-                advanceTurn(state);
-                return true;
+        const handType = bot.decideMove(null);
+        if (handType) {
+            const move = handType.cards;
+            // 出牌
+            state.hands[seatIndex] = hand.filter(c => !move.some(m => m.id === c.id));
+            state.lastHand = { playerIndex: seatIndex, hand: handType };
+            state.passCount = 0;
+            
+            log(`  Bot ${seatIndex} 出牌: ${handType.type} ${formatCards(move)}`, colors.green);
+            
+            // 检查是否出完
+            if (state.hands[seatIndex].length === 0) {
+                state.winners.push(seatIndex);
+                log(`  🏆 Bot ${seatIndex} 出完了！排名 #${state.winners.length}`, colors.yellow);
             }
+            
+            advanceTurn(state);
+            return true;
         }
         // 不应该发生：自由出牌时无法决定
         log(`  ❌ Bot ${seatIndex} 自由出牌失败！手牌: ${hand.length}`, colors.red);
@@ -140,28 +138,26 @@ function playRound(state: GameState): boolean {
     }
     
     // 需要接牌
-    const move = bot.decideMove(target);
+    const handType = bot.decideMove(target);
     
-    if (move && move.length > 0) {
-        const handType = getHandType(move, state.level);
-        if (handType) {
-            const cmp = compareHands(handType, target!);
-            if (cmp > 0) {
-                // 出牌成功
-                state.hands[seatIndex] = hand.filter(c => !move.some(m => m.id === c.id));
-                state.lastHand = { playerIndex: seatIndex, hand: handType };
-                state.passCount = 0;
-                
-                log(`  Bot ${seatIndex} 压牌: ${handType.type} ${formatCards(move)}`, colors.cyan);
-                
-                if (state.hands[seatIndex].length === 0) {
-                    state.winners.push(seatIndex);
-                    log(`  🏆 Bot ${seatIndex} 出完了！排名 #${state.winners.length}`, colors.yellow);
-                }
-                
-                advanceTurn(state);
-                return true;
+    if (handType) {
+        const move = handType.cards;
+        const cmp = compareHands(handType, target!);
+        if (cmp > 0) {
+            // 出牌成功
+            state.hands[seatIndex] = hand.filter(c => !move.some(m => m.id === c.id));
+            state.lastHand = { playerIndex: seatIndex, hand: handType };
+            state.passCount = 0;
+            
+            log(`  Bot ${seatIndex} 压牌: ${handType.type} ${formatCards(move)}`, colors.cyan);
+            
+            if (state.hands[seatIndex].length === 0) {
+                state.winners.push(seatIndex);
+                log(`  🏆 Bot ${seatIndex} 出完了！排名 #${state.winners.length}`, colors.yellow);
             }
+            
+            advanceTurn(state);
+            return true;
         }
     }
     
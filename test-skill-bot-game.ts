@@ -6,8 +6,8 @@
  * 用法：npx ts-node test-skill-bot-game.ts
  */
 
-import { Server, Socket } from 'socket.io';
 import { Game } from './src/server/game';
+import { MemoryTransport, ManualClock } from './src/server/transport';
 import { GameMode, HandType, Rank, Suit } from './src/shared/types';
 // Remove incorrect import
 // import { getRankName } from './src/shared/deck';
@@ -29,59 +29,22 @@ function log(msg: string, color: string = colors.reset) {
     console.log(`${color}${msg}${colors.reset}`);
 }
 
-// Mock Socket.io Server & Socket
-class MockSocket {
-    id: string;
-    connected: boolean = true;
-    
-    constructor(id: string) {
-        this.id = id;
-    }
-
-    emit(event: string, ...args: any[]) {
-        // 可以在这里捕获发给特定玩家的消息
+// 广播只打印关键事件，其余交给 MemoryTransport 记录
+class LoggingTransport extends MemoryTransport {
+    broadcast(event: string, ...args: any[]) {
+        super.broadcast(event, ...args);
         if (event === 'error') {
-             // log(`[Socket ${this.id}] Error: ${args[0]}`, colors.red);
+            log(`[Broadcast Error] ${args[0]}`, colors.red);
+        } else if (event === 'chatMessage') {
+            const msg = args[0];
+            // Log all chat messages, including emojis
+            log(`[Chat] ${msg.sender} (Seat ${msg.seatIndex}): ${msg.text}`, colors.magenta);
+        } else if (event === 'gameOver') {
+            log(`[System] Game Over! Winners: ${args[0].winners}`, colors.yellow);
         }
     }
-    
-    join(room: string) {}
-}
-
-class MockServer {
-    sockets: { [id: string]: MockSocket } = {};
-
-    to(roomId: string) {
-        return {
-            emit: (event: string, ...args: any[]) => {
-                if (event === 'error') {
-                    log(`[Broadcast Error] ${args[0]}`, colors.red);
-                } else if (event === 'chatMessage') {
-                    const msg = args[0];
-                    // Log all chat messages, including emojis
-                    log(`[Chat] ${msg.sender} (Seat ${msg.seatIndex}): ${msg.text}`, colors.magenta);
-                } else if (event === 'gameState') {
-                    // 可以在这里捕获游戏状态更新
-                } else if (event === 'gameOver') {
-                    log(`[System] Game Over! Winners: ${args[0].winners}`, colors.yellow);
-                }
-            }
-        };
-    }
 }
 
-// 任务队列，用于驱动游戏循环（替代 setTimeout）
-const taskQueue: { cb: Function, time: number }[] = [];
-let currentTime = 0;
-
-// 覆盖全局 setTimeout
-global.setTimeout = ((callback: Function, ms: number = 0) => {
-    taskQueue.push({ cb: callback, time: currentTime + ms });
-    // 按时间排序，保证执行顺序
-    taskQueue.sort((a, b) => a.time - b.time);
-    return {} as any;
-}) as any;
-
 // 简单的 Rank 转换
 function getRankStr(rank: number): string {
     if (rank === 16) return '大王';
@@ -99,20 +62,17 @@ async function runSkillGameTest() {
     log('          技能掼蛋真实逻辑测试 (Server-less)', colors.yellow);
     log('🀄'.repeat(30) + '\n', colors.yellow);
 
-    const mockIo = new MockServer() as unknown as Server;
+    const transport = new LoggingTransport();
+    // 虚拟时钟：Bot 的延时操作立即按顺序执行
+    const clock = new ManualClock();
     const roomId = 'test-room';
 
-    // 创建 4 个 Bot 玩家
-    // 注意：src/server/game.ts 中的 Player 接口定义
-    const players = [
-        { id: 'bot1', name: 'Bot-0', seatIndex: 0, isBot: true, socket: new MockSocket('bot1') as unknown as Socket },
-        { id: 'bot2', name: 'Bot-1', seatIndex: 1, isBot: true, socket: new MockSocket('bot2') as unknown as Socket },
-        { id: 'bot3', name: 'Bot-2', seatIndex: 2, isBot: true, socket: new MockSocket('bot3') as unknown as Socket },
-        { id: 'bot4', name: 'Bot-3', seatIndex: 3, isBot: true, socket: new MockSocket('bot4') as unknown as Socket }
-    ];
+    // 创建 4 个 Bot 玩家（Bot 不需要连接）
+    const players = [0, 1, 2, 3].map(i => ({ id: `bot${i + 1}`, name: `Bot-${i}`, seatIndex: i, isBot: true }));
 
     // 实例化 Game
-    const game = new Game(mockIo, roomId, players as any, GameMode.Skill);
+    const game = new Game(transport, roomId, players, GameMode.Skill);
+    game.clock = clock;
 
     // 监听 Game 的关键点（通过 Hook console.log 或者检查状态）
     // 这里我们简单地通过 console.log 输出（Game 内部已经有很多 log）
@@ -125,40 +85,17 @@ async function runSkillGameTest() {
     game.resetAndStart();
 
     // 驱动游戏循环
-    // 因为所有 Bot 操作都是通过 setTimeout 调度的，我们需要不断处理 taskQueue
+    // 所有 Bot 操作都通过 game.clock 调度，推进虚拟时钟即可
     const maxSteps = 10000;
-    let steps = 0;
 
     log('>>> 进入事件循环...', colors.cyan);
 
-    while (game.winners.length < 4 && steps < maxSteps) {
-        if (taskQueue.length === 0) {
-            // 如果队列空了但游戏没结束，可能是等待玩家输入（但在全 Bot 局不应该发生）
-            // 或者某些操作没有触发后续事件
-            log('⚠️ 事件队列为空，游戏可能已卡住或结束。', colors.red);
-            break;
-        }
-
-        // 取出第一个任务
-        const task = taskQueue.shift();
-        if (task) {
-            // 执行任务
-            currentTime = task.time; // 更新“虚拟时间”
-            try {
-                task.cb();
-            } catch (e) {
-                log(`❌ 执行任务出错: ${e}`, colors.red);
-                console.error(e);
-            }
-        }
-        
-        steps++;
-        
-        // 简单的进度显示
-        if (steps % 100 === 0) {
-            // process.stdout.write('.');
-        }
+    const steps = clock.run(() => game.winners.length === 4, maxSteps);
+    if (game.winners.length < 4 && clock.pending === 0) {
+        // 队列空了但游戏没结束，可能是等待玩家输入（但在全 Bot 局不应该发生）
+        log('⚠️ 事件队列为空，游戏可能已卡住或结束。', colors.red);
     }
+    log(`>>> 共执行 ${steps} 个定时任务`, colors.cyan);
 
     log('\n' + '='.repeat(60), colors.cyan);
     log('📊 测试结束', colors.cyan);
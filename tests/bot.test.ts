@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Bot } from '../src/shared/bot';
+import { getHandType, compareHands, getAllPossibleHandTypes } from '../src/shared/rules';
+import { parseCards } from '../src/shared/notation';
+import { Hand, HandType } from '../src/shared/types';
+
+function hand(notation: string, level: number): Hand {
+  const h = getHandType(parseCards(notation, level), level);
+  assert.ok(h, `expected "${notation}" to be a legal hand at level ${level}`);
+  return h;
+}
+
+describe('Bot.decideMove', () => {
+  // [target, bot's cards, level, expected play as "Type:value" (null = pass)]
+  const cases: [string, string, number, string | null][] = [
+    // Read on their own these cards are a Tube; the bot plays them as a Plate
+    ['SA DA CA S2 D2 C2', 'S3 D3 C4 D4 * * SK', 9, 'Plate:4'],
+    ['S3 D3 C4 D4 S5 D5', 'S6 D6 C7 * S8 D8 C9', 9, 'Tube:8'],
+    ['S3 D4 C5 H6 S7', 'S5 D6 C8 H9 *', 2, 'Straight:9'],
+    ['S3 D4 C5 H6 S7', 'S8 D9 * CJ DK', 2, null],
+    // Natural plays are preferred over ones that spend a wild
+    ['S3 D4 C5 H6 S7', 'S4 D5 C6 H7 S8 *', 2, 'Straight:8'],
+  ];
+
+  cases.forEach(([target, notation, level, expected]) => {
+    it(`${notation} on ${target} @${level}`, () => {
+      const move = new Bot(parseCards(notation, level), level).decideMove(hand(target, level));
+      assert.equal(move ? `${move.type}:${move.value}` : null, expected);
+      if (!move) return;
+      assert.ok(compareHands(move, hand(target, level)) > 0);
+      assert.ok(getAllPossibleHandTypes(move.cards, level).some(h => h.type === move.type && h.value === move.value));
+    });
+  });
+
+  it('leads a readable hand on a free turn', () => {
+    const move = new Bot(parseCards('* S3 D3 C9', 9), 9).decideMove(null)!;
+    assert.ok(move);
+    assert.ok(getAllPossibleHandTypes(move.cards, 9).some(h => h.type === move.type && h.value === move.value));
+  });
+
+  it('returns bombs as bomb hands', () => {
+    const move = new Bot(parseCards('S5 D5 C5 H5 S9', 2), 2).decideMove(hand('SA', 2))!;
+    assert.deepEqual([move.type, move.value, move.bombCount], [HandType.Bomb, 5, 4]);
+  });
+});
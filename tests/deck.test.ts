@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDeck, shuffleDeck } from '../src/shared/deck';
+import { createRng, nextSeed, randomInt } from '../src/shared/random';
+
+const order = (seed: number) => shuffleDeck(createDeck(), createRng(seed)).map(c => c.id);
+
+describe('createRng', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    for (let i = 0; i < 100; i++) assert.equal(a(), b());
+  });
+
+  it('stays within [0, 1)', () => {
+    const rng = createRng(0);
+    for (let i = 0; i < 1000; i++) {
+      const x = rng();
+      assert.ok(x >= 0 && x < 1, `${x} out of range`);
+    }
+  });
+
+  it('continues the same sequence from a saved state', () => {
+    const rng = createRng(99);
+    rng(); rng();
+    const resumed = createRng(rng.state());
+    assert.deepEqual([rng(), rng()], [resumed(), resumed()]);
+  });
+
+  it('draws per-game seeds and indices deterministically', () => {
+    const a = createRng(7);
+    const b = createRng(7);
+    assert.deepEqual([nextSeed(a), nextSeed(a)], [nextSeed(b), nextSeed(b)]);
+    assert.equal(randomInt(a, 10), randomInt(b, 10));
+  });
+});
+
+describe('shuffleDeck', () => {
+  it('deals the same order for the same seed', () => {
+    assert.deepEqual(order(123456), order(123456));
+  });
+
+  it('deals a different order for a different seed', () => {
+    assert.notDeepEqual(order(1), order(2));
+  });
+
+  it('keeps all 108 cards', () => {
+    const ids = order(99);
+    assert.equal(ids.length, 108);
+    assert.equal(new Set(ids).size, 108);
+  });
+});
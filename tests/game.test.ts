@@ -0,0 +1,228 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Game } from '../src/server/game';
+import { Match } from '../src/server/match';
+import { MemoryTransport, MemoryChannel, ManualClock } from '../src/server/transport';
+import { Bot } from '../src/shared/bot';
+import { getHandType } from '../src/shared/rules';
+import { parseCards } from '../src/shared/notation';
+import { GameMode, HistoryEventType, HandType } from '../src/shared/types';
+import { GamePhase } from '../src/shared/phase';
+
+const bots = () => [0, 1, 2, 3].map(i => ({ id: `bot${i}`, name: `Bot-${i}`, seatIndex: i, isReady: true, isBot: true }));
+
+// Plays an all-bot match in virtual time until `games` games have ended
+function playMatch(seed: number, games: number) {
+  const transport = new MemoryTransport();
+  const clock = new ManualClock();
+  const match = new Match(transport, 'room', bots(), GameMode.Normal, undefined, 0, seed);
+  match.clock = clock;
+  match.startMatch();
+  const ended = () => transport.events.filter(e => e.event === 'gameOver').length;
+  clock.run(() => ended() >= games || match.matchWinner !== null);
+  match.currentGame?.destroy();
+  return { match, transport };
+}
+
+describe('headless engine', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  it('plays a bot match to the end of the first game without sockets or real timers', () => {
+    const { match, transport } = playMatch(2024, 1);
+    const game = match.currentGame!;
+    assert.equal(game.winners.length, 4);
+    const phases = game.history.filter(h => h.type === HistoryEventType.PhaseChange).map(h => h.details.to);
+    assert.deepEqual(phases, ['Dealing', 'Playing', 'Score']);
+    const levelUp = game.history.filter(h => h.type === HistoryEventType.LevelUp);
+    assert.ok(levelUp.length > 0);
+    assert.deepEqual(levelUp[0].details.teamLevels, match.teamLevels);
+    assert.deepEqual(transport.events.find(e => e.event === 'gameOver')!.args[0], { winners: game.winners });
+  });
+
+  it('repeats a match exactly for the same seed', () => {
+    const a = playMatch(7, 2);
+    const b = playMatch(7, 2);
+    assert.deepEqual(a.match.replays, b.match.replays);
+    assert.deepEqual(a.match.currentGame!.history, b.match.currentGame!.history);
+  });
+
+  it('takes actions from a player channel and acts on a timeout', () => {
+    const transport = new MemoryTransport();
+    const clock = new ManualClock();
+    const human = new MemoryChannel();
+    const players = [{ id: 'h', name: 'Human', seatIndex: 0, socket: human }, ...bots().slice(1)];
+    const game = new Game(transport, 'room', players);
+    game.clock = clock;
+    game.turnTimeLimit = 20;
+    game.seed = 1;
+    game.start();
+
+    // First game: the banker's first seat leads
+    assert.equal(human.last('gameState').phase, 'Playing');
+    assert.equal(human.last('gameState').currentTurn, 0);
+    assert.equal(human.last('gameState').turnDeadline, 20000);
+
+    // Nothing to pass on when leading
+    human.send('pass');
+    assert.ok(human.last('error'));
+    assert.equal(game.currentTurn, 0);
+
+    clock.advance(19999);
+    assert.equal(game.currentTurn, 0);
+    clock.advance(1);
+    assert.equal(game.history.filter(h => h.type === HistoryEventType.Play)[0].playerIndex, 0);
+    assert.equal(game.currentTurn, 1);
+    game.destroy();
+  });
+
+  it('keeps the time left on the turn while paused', () => {
+    const clock = new ManualClock();
+    const human = new MemoryChannel();
+    const game = new Game(new MemoryTransport(), 'room', [{ id: 'h', name: 'Human', seatIndex: 0, socket: human }, ...bots().slice(1)]);
+    game.clock = clock;
+    game.turnTimeLimit = 20;
+    game.seed = 1;
+    game.start();
+
+    clock.advance(5000);
+    game.setPaused(true);
+    assert.equal(human.last('gameState').turnDeadline, null);
+    human.send('playHand', [game.hands[0][0]]);
+    assert.equal(human.last('error'), '对局已暂停');
+    clock.advance(100000);
+    assert.equal(game.currentTurn, 0);
+
+    game.setPaused(false);
+    assert.equal(human.last('gameState').turnDeadline, clock.now() + 15000);
+    clock.advance(14999);
+    assert.equal(game.currentTurn, 0);
+    clock.advance(1);
+    assert.equal(game.currentTurn, 1);
+    game.destroy();
+  });
+});
+
+describe('托管', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  it('lets the bot play the seat until the player takes it back', () => {
+    const clock = new ManualClock();
+    const human = new MemoryChannel();
+    const game = new Game(new MemoryTransport(), 'room', [{ id: 'h', name: 'Human', seatIndex: 0, socket: human }, ...bots().slice(1)]);
+    game.clock = clock;
+    game.turnTimeLimit = 0;
+    game.seed = 1;
+    game.start();
+    const actions = () => game.history.filter(h => (h.type === HistoryEventType.Play || h.type === HistoryEventType.Pass) && h.playerIndex === 0).length;
+
+    // No turn limit: the human's turn waits
+    clock.advance(60000);
+    assert.equal(game.currentTurn, 0);
+
+    human.send('toggleAutoPlay');
+    assert.equal(human.last('gameState').autoPlay[0], true);
+    clock.run(() => game.currentTurn !== 0);
+    assert.equal(actions(), 1);
+
+    human.send('toggleAutoPlay');
+    assert.equal(human.last('gameState').autoPlay[0], false);
+    clock.run(() => game.currentTurn === 0);
+    clock.advance(60000);
+    assert.equal(game.currentTurn, 0);
+    assert.equal(actions(), 1);
+    game.destroy();
+  });
+});
+
+describe('bot turns', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  // Seat 1 (a bot) to answer seat 0's plate at level 9
+  function botToAnswer(botCards: string) {
+    const game = new Game(new MemoryTransport(), 'room', bots());
+    game.clock = new ManualClock(); // Scheduled bot turns never run on their own
+    game.seed = 1;
+    game.start();
+    game.level = 9;
+    const target = getHandType(parseCards('SA DA CA S2 D2 C2', 9), 9)!;
+    game.hands[1] = parseCards(botCards, 9);
+    game.lastHand = { playerIndex: 0, hand: target };
+    game.currentTurn = 1;
+    return game;
+  }
+
+  it('plays wild cards with the reading the bot chose', () => {
+    // On their own the cards read as a Tube, which cannot answer a Plate
+    const game = botToAnswer('S3 D3 C4 D4 * * SK');
+    game.handleBotTurn(1);
+    assert.equal(game.lastHand!.playerIndex, 1);
+    assert.equal(game.lastHand!.hand.type, HandType.Plate);
+    assert.equal(game.hands[1].length, 1);
+    game.destroy();
+  });
+
+  it('passes instead of stalling when its move is refused', () => {
+    const game = botToAnswer('S3 D3 C4 D4 * * SK');
+    const bogus = { type: HandType.Plate, value: 99, cards: game.hands[1].slice(0, 6) };
+    const decide = mock.method(Bot.prototype, 'decideMove', () => bogus);
+    game.handleBotTurn(1);
+    decide.mock.restore();
+    assert.equal(game.currentTurn, 2);
+    assert.equal(game.hands[1].length, 7);
+    game.destroy();
+  });
+});
+
+describe('抗贡', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  // A game just dealt after `prevWinners` finished, with the given hands
+  function dealt(prevWinners: number[], hands: string[]) {
+    const transport = new MemoryTransport();
+    const source = new Game(transport, 'room', bots());
+    source.clock = new ManualClock();
+    source.seed = 1;
+    source.start();
+    const snapshot = source.toSnapshot();
+    source.destroy();
+
+    const game = new Game(transport, 'room', bots());
+    game.clock = new ManualClock();
+    game.restore({ ...snapshot, currentPhase: GamePhase.Dealing, level: 2, prevWinners, hands: hands.map(h => parseCards(h, 2)), history: [] });
+    return { game, transport };
+  }
+
+  // [name, previous finishing order, hands by seat, resisted, expected holders]
+  const cases: [string, number[], string[], boolean, number[]][] = [
+    ['last place holds both big jokers', [0, 1, 2, 3], ['S3', 'S4', 'S5', 'BJ BJ S6'], true, [3]],
+    ['the two payers hold one each', [0, 2, 1, 3], ['S3', 'BJ S4', 'S5', 'BJ S6'], true, [3, 1]],
+    ['one big joker is not enough', [0, 2, 1, 3], ['BJ S3', 'S4', 'S5', 'BJ S6'], false, []],
+    ['the winners\' jokers do not count', [0, 1, 2, 3], ['BJ BJ S3', 'S4', 'S5', 'S6'], false, []],
+  ];
+
+  for (const [name, prevWinners, hands, resisted, holders] of cases) {
+    it(name, () => {
+      const { game, transport } = dealt(prevWinners, hands);
+      game.initTributePhase();
+      const entry = game.history.find(h => h.details?.antiTribute);
+      if (resisted) {
+        assert.equal(game.currentPhase, GamePhase.Playing);
+        assert.equal(game.currentTurn, prevWinners[0]);
+        assert.deepEqual(entry!.details.seats, holders);
+        assert.equal(entry!.type, HistoryEventType.Tribute);
+        assert.deepEqual(transport.events.find(e => e.event === 'antiTribute')!.args[0].seats, holders);
+        assert.equal(game.tributeState.pendingTributes.length, 0);
+      } else {
+        // Bots pay (and return) as soon as the tribute starts
+        assert.equal(entry, undefined);
+        const phases = game.history.filter(h => h.type === HistoryEventType.PhaseChange).map(h => h.details.to);
+        assert.deepEqual(phases, [GamePhase.Tribute, GamePhase.ReturnTribute, GamePhase.Playing]);
+      }
+      game.destroy();
+    });
+  }
+});
@@ -0,0 +1,223 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Match } from '../src/server/match';
+import { MemoryTransport, ManualClock } from '../src/server/transport';
+import { GameMode } from '../src/shared/types';
+
+const bots = () => [0, 1, 2, 3].map(i => ({ id: `bot${i}`, name: `Bot-${i}`, seatIndex: i, isReady: true, isBot: true }));
+
+function matchAt(teamLevels: { [key: number]: number }, activeTeam: number, aAttempts: { [key: number]: number } = { 0: 0, 1: 0 }) {
+  const match = new Match(new MemoryTransport(), 'room', bots(), GameMode.Normal);
+  match.clock = new ManualClock(); // The next game is scheduled but never started
+  match.teamLevels = { ...teamLevels };
+  match.activeTeam = activeTeam;
+  match.aAttempts = { ...aAttempts };
+  return match;
+}
+
+describe('过A', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  const cases: {
+    name: string,
+    levels: { [key: number]: number },
+    banker: number,
+    attempts?: { [key: number]: number },
+    winners: number[],
+    matchWinner: number | null,
+    expectLevels?: { [key: number]: number },
+    expectBanker?: number,
+    expectAttempts?: { [key: number]: number }
+  }[] = [
+    { name: 'banker at A wins 1-2', levels: { 0: 14, 1: 9 }, banker: 0, winners: [0, 2, 1, 3], matchWinner: 0 },
+    { name: 'banker at A wins 1-3', levels: { 0: 14, 1: 9 }, banker: 0, winners: [2, 1, 0, 3], matchWinner: 0 },
+    {
+      name: 'banker at A wins 1-4 (partner last)', levels: { 0: 14, 1: 9 }, banker: 0, winners: [0, 1, 3, 2],
+      matchWinner: null, expectLevels: { 0: 14, 1: 9 }, expectBanker: 0, expectAttempts: { 0: 1, 1: 0 }
+    },
+    {
+      name: 'banker at A loses', levels: { 0: 14, 1: 9 }, banker: 0, winners: [1, 3, 0, 2],
+      matchWinner: null, expectLevels: { 0: 14, 1: 12 }, expectBanker: 1, expectAttempts: { 0: 1, 1: 0 }
+    },
+    {
+      name: 'team at A wins while not banker', levels: { 0: 5, 1: 14 }, banker: 0, winners: [1, 3, 0, 2],
+      matchWinner: null, expectLevels: { 0: 5, 1: 14 }, expectBanker: 1, expectAttempts: { 0: 0, 1: 0 }
+    },
+    {
+      name: 'third failure falls back to 2', levels: { 0: 14, 1: 9 }, banker: 0, attempts: { 0: 2, 1: 0 }, winners: [1, 0, 3, 2],
+      matchWinner: null, expectLevels: { 0: 2, 1: 11 }, expectBanker: 1, expectAttempts: { 0: 0, 1: 0 }
+    },
+    {
+      name: 'third failure by a 1-4 win falls back and loses the banker', levels: { 0: 14, 1: 9 }, banker: 0, attempts: { 0: 2, 1: 0 }, winners: [0, 1, 3, 2],
+      matchWinner: null, expectLevels: { 0: 2, 1: 9 }, expectBanker: 1, expectAttempts: { 0: 0, 1: 0 }
+    }
+  ];
+
+  for (const c of cases) {
+    it(c.name, () => {
+      const match = matchAt(c.levels, c.banker, c.attempts);
+      match.handleGameEnd(c.winners);
+      assert.equal(match.matchWinner, c.matchWinner);
+      if (c.expectLevels) assert.deepEqual(match.teamLevels, c.expectLevels);
+      if (c.expectBanker !== undefined) assert.equal(match.activeTeam, c.expectBanker);
+      if (c.expectAttempts) assert.deepEqual(match.getMatchState().aAttempts, c.expectAttempts);
+    });
+  }
+});
+
+describe('matchState', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  it('records each game and announces the next one', () => {
+    const transport = new MemoryTransport();
+    const clock = new ManualClock(1000);
+    const match = new Match(transport, 'room', bots(), GameMode.Normal);
+    match.clock = clock;
+    match.teamLevels = { 0: 4, 1: 2 };
+    match.handleGameEnd([1, 0, 3, 2]);
+
+    const sent = transport.events.filter(e => e.event === 'matchState').pop()!.args[0];
+    assert.equal(sent.games.length, 1);
+    assert.deepEqual(sent.games[0], {
+      game: 1, level: 4, bankerTeam: 0, winners: [1, 0, 3, 2], winningTeam: 1, pattern: 'single',
+      levelsBefore: { 0: 4, 1: 2 }, levelsAfter: { 0: 4, 1: 4 }, nextBanker: 1, aAttempts: { 0: 0, 1: 0 },
+      failedA: false, fellBack: false, passedA: false, nextTribute: [{ from: 2, to: 1 }]
+    });
+    assert.equal(sent.nextGameAt, 1000 + Match.NEXT_GAME_DELAY);
+    assert.equal(sent.serverTime, 1000);
+  });
+
+  it('numbers the games and clears the countdown once the next game starts', () => {
+    const transport = new MemoryTransport();
+    const clock = new ManualClock();
+    const match = new Match(transport, 'room', bots(), GameMode.Normal);
+    match.clock = clock;
+    match.handleGameEnd([0, 2, 1, 3]);
+    clock.advance(Match.NEXT_GAME_DELAY);
+    assert.equal(match.currentGame!.currentRound, 2);
+    assert.equal(match.getMatchState().nextGameAt, null);
+    match.forceEndMatch();
+  });
+
+  it('does not start another game after a forced end', () => {
+    const clock = new ManualClock();
+    const match = new Match(new MemoryTransport(), 'room', bots(), GameMode.Normal);
+    match.clock = clock;
+    match.handleGameEnd([0, 2, 1, 3]);
+    match.forceEndMatch();
+    clock.advance(Match.NEXT_GAME_DELAY);
+    assert.equal(match.currentGame, null);
+  });
+});
+
+describe('pause and continue', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  const humans = (...seats: number[]) => bots().map(p => seats.includes(p.seatIndex) ? { ...p, name: `Human-${p.seatIndex}`, isBot: false } : p);
+
+  function betweenGames(players = bots()) {
+    const clock = new ManualClock();
+    const match = new Match(new MemoryTransport(), 'room', players, GameMode.Normal);
+    match.clock = clock;
+    return { match, clock };
+  }
+
+  it('freezes bot turns until resumed', () => {
+    const clock = new ManualClock();
+    const match = new Match(new MemoryTransport(), 'room', bots(), GameMode.Normal, undefined, 0, 5);
+    match.clock = clock;
+    match.startMatch();
+    clock.advance(10000);
+    assert.ok(match.setPaused(true));
+    const moves = match.currentGame!.history.length;
+    clock.advance(60000);
+    assert.equal(match.currentGame!.history.length, moves);
+    assert.equal(clock.pending, 0);
+
+    match.setPaused(false);
+    clock.advance(10000);
+    assert.ok(match.currentGame!.history.length > moves);
+    match.forceEndMatch();
+  });
+
+  it('holds the countdown between games and restarts it on resume', () => {
+    const { match, clock } = betweenGames();
+    match.handleGameEnd([0, 2, 1, 3]);
+    match.setPaused(true);
+    assert.equal(match.getMatchState().nextGameAt, null);
+    clock.advance(Match.NEXT_GAME_DELAY * 2);
+    assert.equal(match.currentGame, null);
+
+    match.setPaused(false);
+    assert.equal(match.getMatchState().nextGameAt, clock.now() + Match.NEXT_GAME_DELAY);
+    clock.advance(Match.NEXT_GAME_DELAY);
+    assert.ok(match.currentGame);
+    match.forceEndMatch();
+  });
+
+  it('waits for every human to continue', () => {
+    const { match, clock } = betweenGames(humans(0, 2));
+    match.waitForContinue = true;
+    match.handleGameEnd([0, 2, 1, 3]);
+    clock.advance(Match.NEXT_GAME_DELAY * 2);
+    assert.equal(match.currentGame, null);
+    assert.deepEqual(match.getMatchState().continueSeats, [0, 2]);
+
+    match.playerContinue(0);
+    match.playerContinue(0);
+    assert.equal(match.currentGame, null);
+    assert.deepEqual(match.getMatchState().continueVotes, [0]);
+    match.playerContinue(2);
+    assert.ok(match.currentGame);
+    assert.equal(match.getMatchState().awaitingNextGame, false);
+    match.forceEndMatch();
+  });
+
+  it('stops waiting on a player who left', () => {
+    const players = humans(0, 2);
+    const { match } = betweenGames(players);
+    match.waitForContinue = true;
+    match.handleGameEnd([0, 2, 1, 3]);
+    match.playerContinue(0);
+    (players[2] as { isDisconnected?: boolean }).isDisconnected = true;
+    assert.ok(match.checkContinue());
+    match.forceEndMatch();
+  });
+
+  it('counts down when every human has left and waits again when one is back', () => {
+    const players = humans(0, 2);
+    const { match, clock } = betweenGames(players);
+    match.waitForContinue = true;
+    match.handleGameEnd([0, 2, 1, 3]);
+    assert.equal(match.getMatchState().nextGameAt, null);
+
+    players.forEach(p => (p as { isDisconnected?: boolean }).isDisconnected = !p.isBot);
+    assert.equal(match.checkContinue(), false);
+    assert.equal(match.getMatchState().nextGameAt, clock.now() + Match.NEXT_GAME_DELAY);
+
+    (players[0] as { isDisconnected?: boolean }).isDisconnected = false;
+    match.checkContinue();
+    assert.equal(match.getMatchState().nextGameAt, null);
+    clock.advance(Match.NEXT_GAME_DELAY * 2);
+    assert.equal(match.currentGame, null);
+
+    (players[0] as { isDisconnected?: boolean }).isDisconnected = true;
+    match.checkContinue();
+    clock.advance(Match.NEXT_GAME_DELAY);
+    assert.ok(match.currentGame);
+    match.forceEndMatch();
+  });
+
+  it('falls back to the countdown when waiting is switched off', () => {
+    const { match, clock } = betweenGames(humans(0));
+    match.waitForContinue = true;
+    match.handleGameEnd([0, 2, 1, 3]);
+    match.setWaitForContinue(false);
+    clock.advance(Match.NEXT_GAME_DELAY);
+    assert.ok(match.currentGame);
+    match.forceEndMatch();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCards, formatCards } from '../src/shared/notation';
+import { Rank, Suit } from '../src/shared/types';
+
+describe('parseCards', () => {
+  it('parses suits and ranks', () => {
+    const cards = parseCards('H5 S10 DJ CQ SK HA', 2);
+    assert.deepEqual(cards.map(c => [c.suit, c.rank]), [
+      [Suit.Hearts, Rank.Five], [Suit.Spades, Rank.Ten], [Suit.Diamonds, Rank.Jack],
+      [Suit.Clubs, Rank.Queen], [Suit.Spades, Rank.King], [Suit.Hearts, Rank.Ace]
+    ]);
+  });
+
+  it('parses jokers and the jack of spades', () => {
+    const [small, big, jack] = parseCards('SJ BJ S11', 2);
+    assert.equal(small.rank, Rank.SmallJoker);
+    assert.equal(big.rank, Rank.BigJoker);
+    assert.deepEqual([jack.suit, jack.rank], [Suit.Spades, Rank.Jack]);
+  });
+
+  it('parses * as the heart level card', () => {
+    const [wild, level] = parseCards('* S7', 7);
+    assert.deepEqual([wild.suit, wild.rank, wild.isWild], [Suit.Hearts, Rank.Seven, true]);
+    assert.deepEqual([level.isLevelCard, level.isWild], [true, false]);
+  });
+
+  it('gives duplicate cards distinct ids', () => {
+    const [a, b] = parseCards('H5 H5', 2);
+    assert.notEqual(a.id, b.id);
+  });
+
+  it('rejects unknown tokens', () => {
+    assert.throws(() => parseCards('X5', 2));
+    assert.throws(() => parseCards('H1', 2));
+  });
+
+  it('round-trips through formatCards', () => {
+    const notation = 'H5 S10 S11 DQ SJ BJ *';
+    assert.equal(formatCards(parseCards(notation, 9)), notation);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SnapshotStore, RoomSnapshot } from '../src/server/persistence';
+import { GameReplay } from '../src/shared/types';
+
+describe('snapshot store', () => {
+  let dir: string;
+  before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'guandan-')); });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const read = (file: string) => JSON.parse(fs.readFileSync(file, 'utf8'));
+  const replay = (seed: number) => ({ seed, actions: [] }) as unknown as GameReplay;
+
+  it('keeps replays in their own file and rewrites it only when a game ends', () => {
+    const file = path.join(dir, 'rooms.json');
+    const replayFile = path.join(dir, 'rooms.replays.json');
+    const room = { id: 'room', match: { seed: 1, replays: [replay(1)] } } as unknown as RoomSnapshot;
+    const store = new SnapshotStore(file);
+
+    store.scheduleSave(() => [room]);
+    store.flush();
+    assert.deepEqual(read(file).rooms, [{ id: 'room', match: { seed: 1 } }]);
+    assert.deepEqual(read(replayFile), { room: [replay(1)] });
+
+    // A move in the current game leaves the replays alone
+    fs.rmSync(replayFile);
+    store.scheduleSave(() => [room]);
+    store.flush();
+    assert.equal(fs.existsSync(replayFile), false);
+
+    room.match.replays!.push(replay(2));
+    store.scheduleSave(() => [room]);
+    store.flush();
+    assert.deepEqual(read(replayFile), { room: [replay(1), replay(2)] });
+
+    const loaded = new SnapshotStore(file);
+    assert.deepEqual(loaded.load(), [room]);
+    fs.rmSync(replayFile);
+    loaded.scheduleSave(() => [room]);
+    loaded.flush();
+    assert.equal(fs.existsSync(replayFile), false);
+  });
+
+  it('moves an unreadable file aside instead of losing it on the next save', () => {
+    const file = path.join(dir, 'broken.json');
+    fs.writeFileSync(file, '{"version": 1, "rooms": [');
+    const warn = mock.method(console, 'warn', () => {});
+    const store = new SnapshotStore(file);
+    assert.deepEqual(store.load(), []);
+    warn.mock.restore();
+    assert.equal(warn.mock.callCount(), 1);
+
+    store.scheduleSave(() => []);
+    store.flush();
+    const aside = fs.readdirSync(dir).filter(name => name.startsWith('broken.json.corrupt-'));
+    assert.equal(aside.length, 1);
+    assert.equal(fs.readFileSync(path.join(dir, aside[0]), 'utf8'), '{"version": 1, "rooms": [');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GamePhase, PhaseMachine, PHASE_TRANSITIONS } from '../src/shared/phase';
+
+const { Waiting, Dealing, Tribute, ReturnTribute, Playing, Score } = GamePhase;
+
+describe('PhaseMachine transitions', () => {
+  const cases: { name: string, path: GamePhase[] }[] = [
+    { name: 'first game', path: [Dealing, Playing, Score] },
+    { name: 'tribute game', path: [Dealing, Tribute, ReturnTribute, Playing, Score] },
+    { name: 'restart after score', path: [Dealing, Playing, Score, Dealing, Tribute] }
+  ];
+
+  for (const { name, path } of cases) {
+    it(`follows a ${name}`, () => {
+      const seen: string[] = [];
+      const machine = new PhaseMachine(Waiting, {}, (from, to) => seen.push(`${from}>${to}`));
+      for (const phase of path) machine.transition(phase);
+      assert.equal(machine.current, path[path.length - 1]);
+      assert.deepEqual(seen, path.map((to, i) => `${i === 0 ? Waiting : path[i - 1]}>${to}`));
+    });
+  }
+
+  it('rejects every move not in the table', () => {
+    for (const from of Object.values(GamePhase)) {
+      for (const to of Object.values(GamePhase)) {
+        const machine = new PhaseMachine(from);
+        if (PHASE_TRANSITIONS[from].includes(to)) {
+          assert.doesNotThrow(() => machine.transition(to));
+        } else {
+          assert.throws(() => machine.transition(to), /Illegal phase transition/);
+          assert.equal(machine.current, from);
+        }
+      }
+    }
+  });
+
+  it('restores a phase without running hooks', () => {
+    let entered = 0;
+    const machine = new PhaseMachine(Waiting, { [Playing]: { onEnter: () => entered++ } });
+    machine.restore(Playing);
+    assert.equal(machine.current, Playing);
+    assert.equal(entered, 0);
+  });
+});
+
+describe('PhaseMachine hooks', () => {
+  it('runs exit, transition and entry in order', () => {
+    const calls: string[] = [];
+    const machine = new PhaseMachine(Dealing, {
+      [Dealing]: { onExit: to => calls.push(`exit Dealing -> ${to}`) },
+      [Playing]: { onEnter: from => calls.push(`enter Playing <- ${from}`) }
+    }, (from, to) => calls.push(`change ${from} -> ${to}`));
+    machine.transition(Playing);
+    assert.deepEqual(calls, [
+      'exit Dealing -> Playing',
+      'change Dealing -> Playing',
+      'enter Playing <- Dealing'
+    ]);
+  });
+
+  it('lets an entry hook move on again', () => {
+    const seen: GamePhase[] = [];
+    const machine: PhaseMachine = new PhaseMachine(Dealing, {
+      [Tribute]: { onEnter: () => machine.transition(ReturnTribute) },
+      [ReturnTribute]: { onEnter: () => machine.transition(Playing) }
+    }, (_from, to) => seen.push(to));
+    machine.transition(Tribute);
+    assert.deepEqual(seen, [Tribute, ReturnTribute, Playing]);
+    assert.equal(machine.current, Playing);
+  });
+});
+
+describe('PhaseMachine actions', () => {
+  const cases: { phase: GamePhase, allowed: string[] }[] = [
+    { phase: Waiting, allowed: [] },
+    { phase: Dealing, allowed: [] },
+    { phase: Tribute, allowed: ['tribute'] },
+    { phase: ReturnTribute, allowed: ['returnTribute'] },
+    { phase: Playing, allowed: ['play', 'pass', 'useSkill'] },
+    { phase: Score, allowed: [] }
+  ];
+
+  for (const { phase, allowed } of cases) {
+    it(`accepts only ${allowed.join(', ') || 'nothing'} in ${phase}`, () => {
+      const machine = new PhaseMachine(phase);
+      const actions = ['play', 'pass', 'useSkill', 'tribute', 'returnTribute'] as const;
+      assert.deepEqual(actions.filter(a => machine.allows(a)), allowed);
+    });
+  }
+});
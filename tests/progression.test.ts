@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { finishPattern, calculateLevelUp, applyGameResult, tributeOrder, tributeLeader, describeLevelOutcome, LevelState } from '../src/shared/progression';
+import { RULE_SETS, RuleSetId } from '../src/shared/ruleset';
+import { Rank } from '../src/shared/types';
+
+const official = RULE_SETS[RuleSetId.Official];
+const house = RULE_SETS[RuleSetId.House];
+
+describe('calculateLevelUp', () => {
+  // [finishing order, pattern, winning team, levels gained]
+  const cases: [number[], string, number, number][] = [
+    [[0, 2, 1, 3], 'double', 0, 3],
+    [[3, 1, 0, 2], 'double', 1, 3],
+    [[0, 1, 2, 3], 'single', 0, 2],
+    [[1, 0, 3, 2], 'single', 1, 2],
+    [[0, 1, 3, 2], 'tie', 0, 1],
+    [[3, 2, 0, 1], 'tie', 1, 1]
+  ];
+
+  for (const [winners, pattern, team, gain] of cases) {
+    it(`${winners.join('-')} is ${pattern} for team ${team} (+${gain})`, () => {
+      assert.equal(finishPattern(winners), pattern);
+      assert.deepEqual(calculateLevelUp(winners, house), { winningTeam: team, pattern, levelIncrease: gain });
+    });
+  }
+});
+
+describe('applyGameResult', () => {
+  const state = (levels: [number, number], banker: number, attempts: [number, number] = [0, 0]): LevelState => ({
+    teamLevels: { 0: levels[0], 1: levels[1] },
+    activeTeam: banker,
+    aAttempts: { 0: attempts[0], 1: attempts[1] }
+  });
+
+  // [name, before, finishing order, levels after, banker after, attempts after, match winner]
+  const cases: [string, LevelState, number[], [number, number], number, [number, number], number | null][] = [
+    ['banker keeps the deal and climbs', state([2, 2], 0), [0, 2, 1, 3], [5, 2], 0, [0, 0], null],
+    ['the other team takes the deal from its own level', state([7, 4], 0), [1, 0, 3, 2], [7, 6], 1, [0, 0], null],
+    ['levels stop at A', state([12, 2], 0), [0, 2, 1, 3], [14, 2], 0, [0, 0], null],
+    ['reaching A is not passing it', state([11, 2], 0), [0, 2, 1, 3], [14, 2], 0, [0, 0], null],
+    ['banker at A passes with 1-2', state([14, 9], 0), [0, 2, 1, 3], [14, 9], 0, [0, 0], 0],
+    ['banker at A passes with 1-3', state([9, 14], 1), [3, 0, 1, 2], [9, 14], 1, [0, 0], 1],
+    ['banker at A fails with 1-4', state([14, 9], 0), [0, 1, 3, 2], [14, 9], 0, [1, 0], null],
+    ['banker at A fails by losing', state([14, 9], 0, [1, 0]), [1, 3, 0, 2], [14, 12], 1, [2, 0], null],
+    ['non-banker winning at A does not pass', state([5, 14], 0), [1, 3, 0, 2], [5, 14], 1, [0, 0], null],
+    ['third failure falls back to 2', state([14, 9], 0, [2, 0]), [1, 0, 3, 2], [2, 11], 1, [0, 0], null],
+    ['third failure by 1-4 falls back and hands over the deal', state([14, 9], 0, [2, 1]), [2, 1, 3, 0], [2, 9], 1, [0, 1], null]
+  ];
+
+  for (const [name, before, winners, levels, banker, attempts, matchWinner] of cases) {
+    it(name, () => {
+      const outcome = applyGameResult(before, winners, house);
+      assert.deepEqual(outcome.teamLevels, { 0: levels[0], 1: levels[1] });
+      assert.equal(outcome.activeTeam, banker);
+      assert.deepEqual(outcome.aAttempts, { 0: attempts[0], 1: attempts[1] });
+      assert.equal(outcome.matchWinner, matchWinner);
+    });
+  }
+
+  it('does not change the state it is given', () => {
+    const before = state([14, 9], 0, [2, 0]);
+    applyGameResult(before, [1, 0, 3, 2], house);
+    assert.deepEqual(before, state([14, 9], 0, [2, 0]));
+  });
+
+  it('describes a fall back in order', () => {
+    const before = state([14, 9], 0, [2, 0]);
+    const lines = describeLevelOutcome(before, applyGameResult(before, [1, 0, 3, 2], house));
+    assert.equal(lines.length, 4);
+    assert.match(lines[0], /过A失败 \(3\/3\)/);
+    assert.match(lines[1], /9 → 11/);
+    assert.match(lines[2], /退回打2/);
+    assert.match(lines[3], /庄家换为 Team 1/);
+  });
+
+  it('hands over the deal after a fall back by a 1-4 win', () => {
+    const before = state([14, 9], 0, [2, 0]);
+    const lines = describeLevelOutcome(before, applyGameResult(before, [0, 1, 3, 2], house));
+    assert.equal(lines.length, 4);
+    assert.match(lines[0], /过A失败 \(3\/3\)/);
+    assert.match(lines[2], /退回打2/);
+    assert.match(lines[3], /庄家换为 Team 1/);
+  });
+});
+
+describe('tributeOrder', () => {
+  // [rule set, finishing order, expected payments]
+  const cases: [string, typeof house, number[], { from: number, to: number }[]][] = [
+    ['first game', house, [], []],
+    ['double', house, [0, 2, 1, 3], [{ from: 3, to: 0 }, { from: 1, to: 2 }]],
+    ['single', house, [1, 0, 3, 2], [{ from: 2, to: 1 }]],
+    ['tie, house rules', house, [0, 1, 3, 2], []],
+    ['tie, official rules', official, [0, 1, 3, 2], [{ from: 2, to: 0 }]]
+  ];
+
+  for (const [name, ruleSet, winners, expected] of cases) {
+    it(name, () => assert.deepEqual(tributeOrder(winners, ruleSet), expected));
+  }
+});
+
+describe('tributeLeader', () => {
+  it('gives the lead to the larger tribute', () => {
+    assert.equal(tributeLeader([{ from: 3, card: { rank: Rank.King } }, { from: 1, card: { rank: Rank.BigJoker } }], 2), 1);
+  });
+
+  it('counts the level card above an ace', () => {
+    assert.equal(tributeLeader([{ from: 3, card: { rank: Rank.Ace } }, { from: 1, card: { rank: 7 } }], 7), 1);
+  });
+
+  it('keeps the lead with the last place on equal cards', () => {
+    assert.equal(tributeLeader([{ from: 3, card: { rank: Rank.Ace } }, { from: 1, card: { rank: Rank.Ace } }], 2), 3);
+  });
+});
+
+describe('rule set presets', () => {
+  it('differ only in the tribute on a tie', () => {
+    const { id: _a, name: _b, description: _c, tributeOnTie: officialTie, ...officialRest } = official;
+    const { id: _d, name: _e, description: _f, tributeOnTie: houseTie, ...houseRest } = house;
+    assert.notEqual(officialTie, houseTie);
+    assert.deepEqual(officialRest, houseRest);
+  });
+});
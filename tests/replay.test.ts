@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashHands, diffHands, applyReplayAction, replayHandsAt } from '../src/shared/replay';
+import { parseCards } from '../src/shared/notation';
+import { GameReplay, HistoryEventType, GameMode } from '../src/shared/types';
+
+const hands = () => ['H5 S6 D7', 'C8 H9', 'SA', 'BJ SJ'].map(n => parseCards(n, 2));
+
+describe('hashHands', () => {
+  it('ignores the order of cards within a hand', () => {
+    const a = hands();
+    const b = a.map(h => [...h].reverse());
+    assert.equal(hashHands(a), hashHands(b));
+  });
+
+  it('changes when a card moves to another seat', () => {
+    const a = hands();
+    const b = a.map(h => [...h]);
+    b[1].push(b[0].shift()!);
+    assert.notEqual(hashHands(a), hashHands(b));
+  });
+});
+
+describe('diffHands / applyReplayAction', () => {
+  it('round-trips a tribute and a play', () => {
+    const before = hands();
+    const after = before.map(h => [...h]);
+    after[2].push(after[3].shift()!); // tribute 3 -> 2
+    after[0] = after[0].slice(1);     // seat 0 plays one card
+
+    const diff = diffHands(before, after);
+    assert.deepEqual(Object.keys(diff.removed).sort(), ['0', '3']);
+    assert.deepEqual(Object.keys(diff.added), ['2']);
+
+    const rebuilt = applyReplayAction(before, { type: HistoryEventType.Play, message: '', ...diff, stateHash: '' });
+    assert.equal(hashHands(rebuilt), hashHands(after));
+  });
+});
+
+describe('replayHandsAt', () => {
+  it('rebuilds the hands at every step', () => {
+    const initial = hands();
+    const steps = [initial];
+    const actions = [];
+    let current = initial;
+    for (let seat = 0; seat < 2; seat++) {
+      const next = current.map(h => [...h]);
+      next[seat] = next[seat].slice(1);
+      actions.push({ type: HistoryEventType.Play, playerIndex: seat, message: '', ...diffHands(current, next), stateHash: hashHands(next) });
+      steps.push(next);
+      current = next;
+    }
+    const replay: GameReplay = {
+      version: 1, roomId: 'r', round: 1, seed: 1, level: 2, teamLevels: { 0: 2, 1: 2 }, activeTeam: 0,
+      gameMode: GameMode.Normal, ruleSetId: 'House', players: [], initialHands: initial, actions, winners: [], startedAt: 0
+    };
+    steps.forEach((expected, step) => {
+      assert.equal(hashHands(replayHandsAt(replay, step)), hashHands(expected));
+    });
+    assert.equal(hashHands(replayHandsAt(replay, 2)), actions[1].stateHash);
+  });
+});
@@ -0,0 +1,371 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server, Socket } from 'socket.io';
+import { Room, RoomManager, DISCONNECT_GRACE_MS } from '../src/server/room';
+import { Match } from '../src/server/match';
+import { MemoryChannel, ManualClock } from '../src/server/transport';
+import { SpectatorView, HistoryEventType } from '../src/shared/types';
+
+// Just enough of a socket.io connection: the rooms it joined and whether it is still up
+class FakeSocket extends MemoryChannel {
+  rooms = new Set<string>();
+  connected = true;
+
+  constructor(public id: string) {
+    super();
+  }
+
+  join(room: string) {
+    this.rooms.add(room);
+  }
+
+  disconnect() {
+    this.connected = false;
+  }
+}
+
+// Room messages reach every connected socket that joined the room
+class FakeServer {
+  sockets: FakeSocket[] = [];
+
+  connect(id: string): FakeSocket {
+    const socket = new FakeSocket(id);
+    this.sockets.push(socket);
+    return socket;
+  }
+
+  to(room: string | string[]) {
+    const rooms = Array.isArray(room) ? room : [room];
+    return {
+      emit: (event: string, ...args: any[]) => this.sockets
+        .filter(s => s.connected && rooms.some(r => s.rooms.has(r)))
+        .forEach(s => s.emit(event, ...args))
+    };
+  }
+}
+
+const asSocket = (socket: FakeSocket) => socket as unknown as Socket;
+
+// A room in virtual time with one human, Alice, at seat 0
+function lobby() {
+  const io = new FakeServer();
+  const room = new Room('room', io as unknown as Server);
+  const clock = new ManualClock();
+  room.clock = clock;
+  const alice = io.connect('alice');
+  room.addPlayer(asSocket(alice), 'Alice');
+  return { io, room, clock, alice, token: alice.last('session').token as string };
+}
+
+// The same with the match started and bots in the other seats
+function roomWithMatch() {
+  const setup = lobby();
+  setup.alice.send('start');
+  return setup;
+}
+
+// What survives a trip through JSON, as a snapshot file holds it
+const plain = (value: any) => JSON.parse(JSON.stringify(value));
+
+function errors(socket: FakeSocket): string[] {
+  return socket.received.filter(e => e.event === 'error').map(e => e.args[0]);
+}
+
+describe('disconnect takeover', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  it('hands the seat to the bot once the grace period is over', () => {
+    const { io, room, clock, alice } = roomWithMatch();
+    const bob = io.connect('bob');
+    room.addSpectator(asSocket(bob), 'Bob');
+    alice.disconnect();
+    room.handleDisconnect(asSocket(alice));
+
+    const game = room.match!.currentGame!;
+    clock.advance(DISCONNECT_GRACE_MS - 1);
+    assert.equal(game.autoPlay[0], false);
+    clock.advance(1);
+    assert.equal(game.autoPlay[0], true);
+    assert.ok(errors(bob).some(e => e.includes('托管')));
+  });
+
+  it('gives the seat back when the player returns', () => {
+    const { io, room, clock, alice, token } = roomWithMatch();
+    alice.disconnect();
+    room.handleDisconnect(asSocket(alice));
+    clock.advance(DISCONNECT_GRACE_MS);
+
+    const again = io.connect('alice-2');
+    room.addPlayer(asSocket(again), 'Alice', token);
+    const game = room.match!.currentGame!;
+    assert.equal(game.autoPlay[0], false);
+    assert.equal(room.players[0]!.isDisconnected, false);
+    assert.equal(again.last('gameState').autoPlay[0], false);
+  });
+
+  it('never takes over when the player is back in time', () => {
+    const { io, room, clock, alice, token } = roomWithMatch();
+    alice.disconnect();
+    room.handleDisconnect(asSocket(alice));
+    clock.advance(DISCONNECT_GRACE_MS - 1);
+
+    room.addPlayer(asSocket(io.connect('alice-2')), 'Alice', token);
+    clock.advance(DISCONNECT_GRACE_MS);
+    assert.equal(room.match!.currentGame!.autoPlay[0], false);
+  });
+
+  it('frees the seat instead once the match is won', () => {
+    const { io, room, clock, alice } = roomWithMatch();
+    const bob = io.connect('bob');
+    room.addSpectator(asSocket(bob), 'Bob');
+    room.match!.matchWinner = 0; // The last game stays on the table
+    alice.disconnect();
+    room.handleDisconnect(asSocket(alice));
+    clock.advance(DISCONNECT_GRACE_MS);
+    assert.equal(room.players[0], null);
+    assert.equal(room.match!.currentGame!.autoPlay[0], false);
+    assert.ok(!errors(bob).some(e => e.includes('托管')));
+  });
+});
+
+describe('resuming a session', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  it('gives the seat back for a valid token', () => {
+    const { io, room, clock, alice, token } = lobby();
+    alice.disconnect();
+    room.handleDisconnect(asSocket(alice));
+    clock.advance(DISCONNECT_GRACE_MS - 1);
+    assert.equal(room.players[0]!.isDisconnected, true);
+
+    const again = io.connect('alice-2');
+    assert.equal(room.resumePlayer(asSocket(again), token), true);
+    assert.deepEqual(again.last('session'), { token, roomId: 'room', name: 'Alice' });
+    assert.equal(room.players[0]!.id, 'alice-2');
+    assert.equal(room.players[0]!.isDisconnected, false);
+    clock.advance(DISCONNECT_GRACE_MS);
+    assert.equal(room.players[0]!.name, 'Alice');
+  });
+
+  it('frees a lobby seat nobody came back for', () => {
+    const { io, room, clock, alice } = lobby();
+    const bob = io.connect('bob');
+    room.addPlayer(asSocket(bob), 'Bob');
+    alice.disconnect();
+    room.handleDisconnect(asSocket(alice));
+    clock.advance(DISCONNECT_GRACE_MS);
+    assert.equal(room.players[0], null);
+    assert.equal(bob.last('roomState').players[0], null);
+  });
+
+  it('expires an unknown token without taking a seat', () => {
+    const io = new FakeServer();
+    const manager = new RoomManager(io as unknown as Server);
+    manager.joinRoom(asSocket(io.connect('alice')), 'Alice', 'room');
+    const stranger = io.connect('stranger');
+    manager.resumeSession(asSocket(stranger), 'room', 'not-a-token');
+    manager.resumeSession(asSocket(stranger), 'no-such-room', 'not-a-token');
+    assert.equal(stranger.received.filter(e => e.event === 'sessionExpired').length, 2);
+    assert.equal(stranger.last('session'), undefined);
+    assert.equal(manager.getRoomList()[0].playerCount, 1);
+  });
+
+  it('disconnects the old socket when it is still connected', () => {
+    const { io, room, alice, token } = roomWithMatch();
+    const again = io.connect('alice-2');
+    room.addPlayer(asSocket(again), 'Alice', token);
+    assert.equal(alice.connected, false);
+    assert.ok(errors(alice).includes('已在其他页面重新连接'));
+    assert.equal(room.players[0]!.socket, asSocket(again));
+    assert.equal(again.last('gameState').currentTurn, room.match!.currentGame!.currentTurn);
+  });
+});
+
+describe('spectators', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  it('hear about the game only after the delay', () => {
+    const { io, room, clock, alice } = roomWithMatch();
+    alice.send('setSpectatorView', { view: SpectatorView.Hidden, delay: 10 });
+    const bob = io.connect('bob');
+    room.addSpectator(asSocket(bob), 'Bob');
+    alice.send('pauseMatch'); // Nothing else happens while we wait
+    assert.equal(alice.last('matchState').paused, true);
+    assert.equal(bob.last('matchState'), undefined);
+    assert.equal(bob.last('gameState'), undefined);
+
+    clock.advance(9999);
+    assert.equal(bob.last('matchState'), undefined);
+    clock.advance(1);
+    assert.equal(bob.last('matchState').paused, true);
+    assert.equal(bob.last('gameState').turnDeadline, null);
+  });
+
+  const views: { view: SpectatorView, follow: number | null, revealed: number[] }[] = [
+    { view: SpectatorView.Hidden, follow: null, revealed: [] },
+    { view: SpectatorView.Hidden, follow: 2, revealed: [] },
+    { view: SpectatorView.FollowSeat, follow: null, revealed: [] },
+    { view: SpectatorView.FollowSeat, follow: 2, revealed: [2] },
+    { view: SpectatorView.God, follow: null, revealed: [0, 1, 2, 3] }
+  ];
+
+  for (const c of views) {
+    it(`see ${c.revealed.length ? `seats ${c.revealed}` : 'no hands'} in ${c.view} view following ${c.follow ?? 'nobody'}`, () => {
+      const { io, room, alice } = roomWithMatch();
+      alice.send('setSpectatorView', { view: c.view, delay: 0 });
+      const bob = io.connect('bob');
+      room.addSpectator(asSocket(bob), 'Bob');
+      bob.send('spectateSeat', c.follow);
+      const hands: any[] = bob.last('gameState').hands;
+      assert.deepEqual([0, 1, 2, 3].filter(i => Array.isArray(hands[i])), c.revealed);
+      assert.ok(hands.every(h => Array.isArray(h) || typeof h === 'number'));
+    });
+  }
+
+  it('chat among themselves', () => {
+    const { io, room, alice } = lobby();
+    const bob = io.connect('bob');
+    room.addSpectator(asSocket(bob), 'Bob');
+    bob.send('chatMessage', 'seat 2 has two bombs');
+    alice.send('chatMessage', 'hello');
+    assert.deepEqual(alice.received.filter(e => e.event === 'chatMessage').map(e => e.args[0].text), ['hello']);
+    assert.deepEqual(bob.received.filter(e => e.event === 'chatMessage').map(e => e.args[0].text), ['seat 2 has two bombs', 'hello']);
+
+    const carol = io.connect('carol');
+    room.addPlayer(asSocket(carol), 'Carol');
+    assert.deepEqual(carol.last('chatHistory').map((m: any) => m.text), ['hello']);
+  });
+});
+
+describe('deal seeds', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  it('stay on the server until the match is over', () => {
+    const { io, room, clock, alice } = lobby();
+    alice.send('setSpectatorView', { view: SpectatorView.God, delay: 0 });
+    const bob = io.connect('bob');
+    room.addSpectator(asSocket(bob), 'Bob');
+    alice.send('start', { seed: 4 });
+    const match = room.match!;
+    clock.run(() => match.awaitingNextGame);
+
+    alice.send('getReplays');
+    bob.send('getReplays');
+    for (const socket of [alice, bob]) {
+      assert.equal(socket.last('replays').length, 1);
+      assert.ok(!JSON.stringify(socket.received).includes('"seed"'));
+    }
+
+    match.matchWinner = 0;
+    alice.send('getReplays');
+    assert.equal(alice.last('replays')[0].seed, 4);
+    assert.equal(match.getMatchState().seed, 4);
+  });
+});
+
+describe('room snapshots', () => {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  it('pick the second game up where it stopped', () => {
+    const { room, clock, alice } = lobby();
+    alice.send('setWaitForContinue', true);
+    alice.send('start', { seed: 4 });
+    const match = room.match!;
+    clock.run(() => match.awaitingNextGame);
+    alice.send('continueMatch');
+
+    // Seat 2 has paid its tribute; Alice still owes hers
+    const game = match.currentGame!;
+    assert.equal(match.games.length, 1);
+    assert.deepEqual(game.tributeState.pendingTributes.map(t => [t.from, !!t.card]), [[2, true], [0, false]]);
+    const saved = plain(room.toSnapshot());
+    const restored = Room.fromSnapshot(new FakeServer() as unknown as Server, saved, new ManualClock(clock.now()));
+    const again = restored.match!.currentGame!;
+
+    assert.equal(restored.waitForContinue, true);
+    assert.deepEqual(restored.match!.teamLevels, match.teamLevels);
+    assert.equal(restored.match!.activeTeam, match.activeTeam);
+    assert.deepEqual(restored.match!.games, plain(match.games));
+    assert.deepEqual(restored.match!.replays, plain(match.replays));
+    assert.equal(again.level, game.level);
+    assert.deepEqual(again.hands, plain(game.hands));
+    assert.equal(again.currentTurn, game.currentTurn);
+    assert.deepEqual(again.lastHand, plain(game.lastHand));
+    assert.deepEqual(again.tributeState, plain(game.tributeState));
+    assert.deepEqual(again.history, plain(game.history));
+    assert.deepEqual(plain(restored.toSnapshot()), saved);
+  });
+
+  // Saved after the first game, before the second has started
+  function savedBetweenGames(waitForContinue: boolean) {
+    const { room, clock, alice } = lobby();
+    alice.send('setWaitForContinue', waitForContinue);
+    alice.send('start', { seed: 4 });
+    clock.run(() => room.match!.awaitingNextGame);
+    const saved = plain(room.toSnapshot());
+    const io = new FakeServer();
+    const later = new ManualClock(clock.now());
+    return { io, clock: later, token: alice.last('session').token as string, restored: Room.fromSnapshot(io as unknown as Server, saved, later) };
+  }
+
+  it('count down to the next game again when saved between games', () => {
+    const { clock, restored } = savedBetweenGames(false);
+    const match = restored.match!;
+    assert.equal(match.awaitingNextGame, true);
+    assert.equal(match.currentGame!.currentPhase, 'Score');
+    assert.equal(match.getMatchState().inProgress, true);
+    assert.equal(match.nextGameAt, clock.now() + Match.NEXT_GAME_DELAY);
+
+    clock.advance(Match.NEXT_GAME_DELAY);
+    assert.equal(match.awaitingNextGame, false);
+    assert.notEqual(match.currentGame!.currentPhase, 'Score');
+  });
+
+  it('wait for 继续 again when saved between games', () => {
+    const { io, clock, token, restored } = savedBetweenGames(true);
+    const match = restored.match!;
+    const alice = io.connect('alice-2');
+    restored.addPlayer(asSocket(alice), 'Alice', token);
+    assert.equal(match.awaitingNextGame, true);
+    assert.deepEqual(alice.last('matchState').continueSeats, [0]);
+    clock.advance(60000);
+    assert.equal(match.awaitingNextGame, true);
+
+    alice.send('continueMatch');
+    assert.equal(match.awaitingNextGame, false);
+    assert.equal(match.games.length, 1);
+  });
+
+  it('stay paused when saved paused between games', () => {
+    const { room, clock, alice } = lobby();
+    alice.send('start', { seed: 4 });
+    clock.run(() => room.match!.awaitingNextGame);
+    alice.send('pauseMatch');
+    const later = new ManualClock(clock.now());
+    const match = Room.fromSnapshot(new FakeServer() as unknown as Server, plain(room.toSnapshot()), later).match!;
+    assert.equal(match.paused, true);
+    assert.equal(match.nextGameAt, null);
+
+    match.setPaused(false);
+    later.advance(Match.NEXT_GAME_DELAY);
+    assert.equal(match.awaitingNextGame, false);
+  });
+
+  it('are asked for on changes, not on every broadcast', () => {
+    const { room, clock, alice } = roomWithMatch();
+    let changes = 0;
+    room.onChange = () => changes++;
+    room.match!.currentGame!.broadcastGameState();
+    assert.equal(changes, 0);
+
+    alice.send('toggleAutoPlay');
+    assert.equal(changes, 1);
+    clock.advance(1500);
+    assert.ok(changes > 1);
+  });
+});
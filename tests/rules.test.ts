@@ -0,0 +1,302 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getHandType, compareHands, isConsecutive, getAllPossibleHandTypes, getHandInterpretations, enumerateLegalMoves, findStraightFlushes, isValidTributeCard, getReturnTributeCandidates } from '../src/shared/rules';
+import { parseCards, formatCards } from '../src/shared/notation';
+import { Hand, HandType } from '../src/shared/types';
+
+// Hand for notation at a level (fails the test if the cards are not a legal hand)
+function hand(notation: string, level: number = 2): Hand {
+  const h = getHandType(parseCards(notation, level), level);
+  assert.ok(h, `expected "${notation}" to be a legal hand at level ${level}`);
+  return h;
+}
+
+describe('getHandType', () => {
+  // [cards, level, expected type (null = invalid), expected value, bomb size]
+  const cases: [string, number, HandType | null, number?, number?][] = [
+    ['H5', 2, HandType.Single, 5],
+    ['SA', 2, HandType.Single, 14],
+    ['S7', 7, HandType.Single, 19],
+    ['*', 7, HandType.Single, 19],
+    ['BJ', 2, HandType.Single, 21],
+    ['H5 S5', 2, HandType.Pair, 5],
+    ['* S5', 7, HandType.Pair, 5],
+    ['* SJ', 7, null],
+    ['SJ SJ', 2, HandType.Pair, 20],
+    ['SJ BJ', 2, null],
+    ['H5 S6', 2, null],
+    ['H9 S9 D9', 2, HandType.Trips, 9],
+    ['* S9 D9', 7, HandType.Trips, 9],
+    ['H9 S9 D9 C4 H4', 2, HandType.TripsWithPair, 9],
+    ['* S9 D9 C4 H4', 7, HandType.TripsWithPair, 9],
+    ['H9 S9 D9 C4 H5', 2, null],
+    ['H3 S4 D5 C6 H7', 2, HandType.Straight, 7],
+    ['HA S2 D3 C4 H5', 7, HandType.Straight, 5],
+    ['H10 S11 DQ CK HA', 2, HandType.Straight, 14],
+    ['HQ SK DA C2 H3', 7, null],
+    ['* S4 D5 C6 H8', 7, HandType.Straight, 8],
+    ['H3 H4 H5 H6 H7', 2, HandType.StraightFlush, 7, 5],
+    ['H3 S3 D4 C4 H5 S5', 2, HandType.Tube, 5],
+    ['HA SA D2 C2 H3 S3', 7, HandType.Tube, 3],
+    ['HQ SQ DK CK HA SA', 7, HandType.Tube, 14],
+    ['* S3 D4 C4 H5 S5', 7, HandType.Tube, 5],
+    ['* * D4 C4 H5 S5', 7, HandType.Tube, 6],
+    ['H3 S3 D3 C4 H4 S4', 2, HandType.Plate, 4],
+    ['HA SA DA C2 H2 S2', 7, HandType.Plate, 2],
+    ['HK SK DK CA HA SA', 7, HandType.Plate, 14],
+    ['* S3 D3 C4 H4 S4', 7, HandType.Plate, 4],
+    ['H3 S3 D3 C5 H5 S5', 2, null],
+    ['* S3 S5 S6 S7', 7, HandType.StraightFlush, 7, 5],
+    ['* * S9 S10 S12', 2, HandType.StraightFlush, 13, 5],
+    ['* * DA D2 D3', 7, HandType.StraightFlush, 5, 5],
+    ['* S3 S4 S5 D6', 7, HandType.Straight, 7],
+    ['H8 S8 D8 C8', 2, HandType.Bomb, 8, 4],
+    ['* S8 D8 C8 H8', 7, HandType.Bomb, 8, 5],
+    ['S7 D7 C7 D7 S7 C7', 7, HandType.Bomb, 19, 6],
+    ['SJ SJ BJ BJ', 2, HandType.FourKings, 999],
+  ];
+
+  cases.forEach(([notation, level, type, value, bombCount]) => {
+    it(`${notation} @${level} -> ${type ?? 'invalid'}`, () => {
+      const result = getHandType(parseCards(notation, level), level);
+      if (type === null) {
+        assert.equal(result, null);
+        return;
+      }
+      assert.ok(result);
+      assert.equal(result.type, type);
+      if (value !== undefined) assert.equal(result.value, value);
+      if (bombCount !== undefined) assert.equal(result.bombCount, bombCount);
+    });
+  });
+});
+
+describe('compareHands', () => {
+  // [a, b, level, expected sign of compareHands(a, b)]
+  const cases: [string, string, number, number][] = [
+    ['H6', 'H5', 2, 1],
+    ['H5', 'S5', 2, 0],
+    ['S2', 'HA', 2, 1],
+    ['BJ', 'SJ', 2, 1],
+    ['H6 S6', 'H5 S5', 2, 1],
+    ['H4 S5 D6 C7 H8', 'H3 S4 D5 C6 H7', 2, 1],
+    ['H6 S6', 'H5', 2, 0],
+    ['H3 S3 D3 C3', 'HA SA DA CA DA', 7, -1],
+    ['HA SA DA CA', 'H3 S3 D3 C3', 7, 1],
+    ['S2 D2 C2 D2', 'HA SA DA CA', 2, 1],
+    ['H3 H4 H5 H6 H7', 'HA SA DA CA DA', 2, 1],
+    ['H3 S3 D3 C3 D3 S3', 'H9 H10 HJ HQ HK', 2, 1],
+    ['SJ SJ BJ BJ', 'H3 S3 D3 C3 D3 S3 H3 C3', 2, 1],
+    ['H2', 'S3 S4 S5 S6 S7', 2, -1],
+  ];
+
+  cases.forEach(([a, b, level, sign]) => {
+    it(`${a} vs ${b} @${level}`, () => {
+      assert.equal(Math.sign(compareHands(hand(a, level), hand(b, level))), sign);
+    });
+  });
+});
+
+describe('isConsecutive', () => {
+  const cases: [number[], boolean][] = [
+    [[3, 4, 5, 6, 7], true],
+    [[7, 5, 6, 4, 3], true],
+    [[14, 2, 3, 4, 5], true],
+    [[10, 11, 12, 13, 14], true],
+    [[3, 4, 6, 7, 8], false],
+    [[13, 14, 2, 3, 4], false],
+    [[5], false],
+  ];
+
+  cases.forEach(([values, expected]) => {
+    it(`${values.join(',')} -> ${expected}`, () => {
+      assert.equal(isConsecutive(values), expected);
+    });
+  });
+});
+
+describe('getAllPossibleHandTypes', () => {
+  // [cards, level, expected interpretations as "Type:value"]
+  const cases: [string, number, string[]][] = [
+    ['H5 S5', 2, ['Pair:5']],
+    ['*', 7, ['Single:19']],
+    ['* S5', 7, ['Pair:5']],
+    ['* S5 D5 C5 H5', 7, ['Bomb:5']],
+    ['* S3 S4 S5 S6', 7, ['StraightFlush:7', 'StraightFlush:6', 'Straight:7', 'Straight:6']],
+    ['* S3 S5 S6 S7', 7, ['StraightFlush:7', 'Straight:7']],
+    ['* * S9 S10 S12', 2, ['StraightFlush:13', 'StraightFlush:12', 'Straight:13', 'Straight:12']],
+    ['* S3 D4 C5 H6', 7, ['Straight:7', 'Straight:6']],
+    ['* S5 D5 C6 H6', 7, ['TripsWithPair:6', 'TripsWithPair:5']],
+    ['* * S3 D3 C4 H4', 7, ['Tube:5', 'Tube:4', 'Plate:4']],
+    ['* *', 7, ['Pair:19']],
+    ['* S5 D5 C5', 7, ['Bomb:5']],
+    ['H3 S3 D3', 2, ['Trips:3']],
+    ['H3 S4', 2, []],
+  ];
+
+  cases.forEach(([notation, level, expected]) => {
+    it(`${notation} @${level}`, () => {
+      const hands = getAllPossibleHandTypes(parseCards(notation, level), level);
+      assert.deepEqual(hands.map(h => `${h.type}:${h.value}`).sort(), [...expected].sort());
+    });
+  });
+
+  it('offers both ends of a straight the wild can complete', () => {
+    const readings = getHandInterpretations(parseCards('S4 D5 C6 H7 *', 9), 9);
+    assert.deepEqual(readings.map(r => r.hand.value), [8, 7]);
+    assert.deepEqual(readings.map(r => Object.values(r.wildUsage!)[0].asRank), [8, 3]);
+  });
+
+  it('lists interchangeable wilds once', () => {
+    const readings = getHandInterpretations(parseCards('* * S9 S10 S12', 2), 2).filter(r => r.hand.type === HandType.Straight);
+    assert.equal(readings.length, 2);
+  });
+
+  it('keeps the cards as played', () => {
+    const cards = parseCards('* S3 S4 S5 S6', 7);
+    getAllPossibleHandTypes(cards, 7).forEach(h => assert.deepEqual(h.cards, cards));
+  });
+});
+
+describe('enumerateLegalMoves with wild cards', () => {
+  // [target, hand, level, expected plays as "Type:value", cheapest first]
+  const cases: [string, string, number, string[]][] = [
+    ['SA DA CA S2 D2 C2', 'S3 D3 C4 D4 * * SK', 9, ['Plate:4', 'Bomb:3', 'Bomb:4']],
+    ['S3 D3 C4 D4 S5 D5', 'S6 D6 C7 * S8 D8 C9', 9, ['Tube:8']],
+    ['S3 D4 C5 H6 S7', 'S8 D9 * CJ DK', 2, []],
+    ['S3 D4 C5 H6 S7', 'S5 D6 C8 H9 *', 2, ['Straight:9']],
+  ];
+
+  cases.forEach(([target, notation, level, expected]) => {
+    it(`${notation} on ${target} @${level}`, () => {
+      const moves = enumerateLegalMoves(parseCards(notation, level), hand(target, level), level);
+      assert.deepEqual(moves.map(m => `${m.type}:${m.value}`), expected);
+    });
+  });
+
+  it('gives each play a reading the cards allow', () => {
+    const level = 9;
+    enumerateLegalMoves(parseCards('S3 D3 C4 D4 * * SK', level), hand('SA DA CA S2 D2 C2', level), level).forEach(m => {
+      assert.ok(getAllPossibleHandTypes(m.cards, level).some(h => h.type === m.type && h.value === m.value), `${m.type}:${m.value}`);
+    });
+  });
+});
+
+describe('findStraightFlushes', () => {
+  // [cards, level, expected "value:wilds" per straight flush, weakest first]
+  const cases: [string, number, string[]][] = [
+    ['S3 S4 S5 S6 S7 S8', 2, ['7:0', '8:0']],
+    ['S3 S4 S6 S7 D9', 2, []],
+    ['* S3 S4 S6 S7', 5, ['7:1']],
+    ['* C10 C11 C12 C13', 7, ['13:1', '14:1']],
+    ['* C9 C10 C11 C12 C13', 7, ['12:1', '13:0', '14:1']],
+    ['* * D2 D4', 7, []],
+    ['* * D2 D4 D6', 7, ['6:2']],
+  ];
+
+  cases.forEach(([notation, level, expected]) => {
+    it(`${notation} @${level}`, () => {
+      const sfs = findStraightFlushes(parseCards(notation, level), level);
+      assert.deepEqual(sfs.map(h => `${h.value}:${h.cards.filter(c => c.isWild).length}`), expected);
+    });
+  });
+
+  it('returns hands the engine reads as straight flushes', () => {
+    const cards = parseCards('* * S9 S10 S12 D5 D5', 2);
+    findStraightFlushes(cards, 2).forEach(sf => {
+      const h = getHandType(sf.cards, 2);
+      assert.equal(h?.type, HandType.StraightFlush);
+      assert.ok(h.value >= sf.value);
+    });
+  });
+});
+
+describe('level cards in sequences', () => {
+  // Numeric ranks: "SJ" would read as the small joker
+  const RANKS = ['', '', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12', '13', '14'];
+  const SUITS = ['S', 'D', 'C'];
+
+  // `size` cards of each rank in lo..lo+count-1, never suited throughout
+  function run(lo: number, count: number, size: number): string {
+    const tokens: string[] = [];
+    for (let r = lo; r < lo + count; r++) {
+      for (let i = 0; i < size; i++) tokens.push(SUITS[(r + i) % SUITS.length] + RANKS[r]);
+    }
+    return tokens.join(' ');
+  }
+
+  for (let level = 2; level <= 14; level++) {
+    describe(`level ${level}`, () => {
+      it('straight uses the natural rank', () => {
+        const lo = Math.max(2, Math.min(level - 2, 10));
+        const straight = hand(run(lo, 5, 1), level);
+        assert.equal(straight.type, HandType.Straight);
+        assert.equal(straight.value, lo + 4);
+      });
+
+      it('tube and plate use the natural rank', () => {
+        const tubeLo = Math.max(2, Math.min(level - 1, 12));
+        const tube = hand(run(tubeLo, 3, 2), level);
+        assert.equal(tube.type, HandType.Tube);
+        assert.equal(tube.value, tubeLo + 2);
+        const plateLo = Math.min(level, 13);
+        const plate = hand(run(plateLo, 2, 3), level);
+        assert.equal(plate.type, HandType.Plate);
+        assert.equal(plate.value, plateLo + 1);
+      });
+
+      it('cannot extend a run as 19', () => {
+        const lo = level <= 8 ? 10 : 3;
+        const notation = `${run(lo, 4, 1)} S${RANKS[level]}`;
+        assert.equal(getHandType(parseCards(notation, level), level), null);
+      });
+
+      it('pairs and bombs use 19', () => {
+        const r = RANKS[level];
+        assert.equal(hand(`S${r} D${r}`, level).value, 19);
+        assert.equal(hand(`S${r} D${r} C${r} S${r}`, level).value, 19);
+      });
+
+      it('straight flush search uses the natural rank', () => {
+        const lo = Math.max(2, Math.min(level - 2, 10));
+        const notation = [0, 1, 2, 3, 4].map(i => 'C' + RANKS[lo + i]).join(' ');
+        const sfs = findStraightFlushes(parseCards(notation, level), level);
+        assert.deepEqual(sfs.map(h => h.value), [lo + 4]);
+        assert.equal(hand(notation, level).type, HandType.StraightFlush);
+      });
+    });
+  }
+});
+
+describe('tribute cards', () => {
+  // [hand, level, card, valid as tribute]
+  const tributes: [string, number, string, boolean][] = [
+    ['BJ S5 D9', 2, 'BJ', true],
+    ['BJ S5 D9', 2, 'D9', false],
+    ['* SA D9', 7, '*', false],
+    ['* SA D9', 7, 'SA', true],
+    ['* S7 SA', 7, 'S7', true],
+  ];
+
+  tributes.forEach(([notation, level, token, valid]) => {
+    it(`pay ${token} from ${notation} @${level}`, () => {
+      const hand = parseCards(notation, level);
+      const card = hand.find(c => c.id.endsWith(`-${token}`))!;
+      assert.equal(isValidTributeCard(card, hand, level), valid);
+    });
+  });
+
+  // [hand, level, expected returnable cards]
+  const returns: [string, number, string][] = [
+    ['S3 D10 CJ BJ', 2, 'S3 D10'],
+    ['S3 D5 C5 H10', 5, 'S3 H10'],
+    ['* SA', 7, '* SA'],
+  ];
+
+  returns.forEach(([notation, level, expected]) => {
+    it(`return from ${notation} @${level}`, () => {
+      const candidates = getReturnTributeCandidates(parseCards(notation, level), level);
+      assert.equal(formatCards(candidates), expected);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decomposeHand } from '../src/shared/solver';
+import { parseCards } from '../src/shared/notation';
+
+describe('decomposeHand', () => {
+  // [cards, level, expected plays as "Type:value", cheapest first]
+  const cases: [string, number, string[]][] = [
+    ['S3 D4 C5 H6 S7 S9 D9', 2, ['Straight:7', 'Pair:9']],
+    ['S3 D3 C3 S4 D4 C4', 2, ['Plate:4']],
+    ['S3 D3 C3 S9 D9 SK', 2, ['TripsWithPair:3', 'Single:13']],
+    ['S3 D3 S4 D4 * *', 7, ['Tube:5']],
+    // Trips and two wilds: one bomb, not trips with a pair
+    ['S5 D5 C5 * *', 2, ['Bomb:5']],
+    ['H3 H4 H5 H6 H7 D8', 2, ['Single:8', 'StraightFlush:7']],
+    ['* S3 S4 S6 S7', 5, ['StraightFlush:7']],
+    ['SJ SJ BJ BJ S3', 2, ['Single:3', 'FourKings:999']],
+  ];
+
+  cases.forEach(([notation, level, expected]) => {
+    it(`${notation} @${level}`, () => {
+      const { plays, score } = decomposeHand(parseCards(notation, level), level);
+      assert.deepEqual(plays.map(p => `${p.type}:${p.value}`), expected);
+      assert.equal(score, expected.length);
+    });
+  });
+
+  it('keeps every card, also with ten or more of a rank', () => {
+    // Skill mode can hand out more copies of a rank than two decks hold
+    const cards = parseCards([...Array(11).fill('S5'), ...Array(10).fill('S6'), 'S7'].join(' '), 2);
+    cards.forEach((c, i) => { c.id = `c${i}`; });
+    const { plays } = decomposeHand(cards, 2);
+    assert.deepEqual(plays.flatMap(p => p.cards.map(c => c.id)).sort(), cards.map(c => c.id).sort());
+  });
+});